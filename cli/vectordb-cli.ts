@@ -6,32 +6,75 @@
  * 
  * Usage:
  *   vectordb query "How does the styling system work?"
+ *   vectordb query "auth middleware" --collections "docs-*"
+ *   vectordb context "add a settings screen" --budget 6000 > context.md
  *   vectordb stats
  *   vectordb recent 7
  *   vectordb clear
  *   vectordb backup ./backup.jsonl
  *   vectordb restore ./backup.jsonl
+ *   vectordb backup ./backup.jsonl.gz --key-file ./backup.key
+ *   vectordb backup snapshot
+ *   vectordb backup list
+ *   vectordb backup prune --daily 7 --weekly 4
+ *   vectordb backup restore --at 2025-01-31
+ *   vectordb rollback
+ *   vectordb reindex --provider local
+ *   vectordb cache stats
+ *   vectordb cache clear
+ *   vectordb collections list
+ *   vectordb collections copy project-docs project-docs-backup
  */
 
 import { Command } from 'commander';
 import { ProjectVectorDB } from '../src/lib/client.js';
-import { GoogleAIEmbeddingFunction } from '../src/lib/embeddings.js';
+import { createEmbeddingFunction } from '../src/lib/embeddings.js';
+import { parseFilterExpression } from '../src/lib/filters.js';
+import { EmbeddingCache } from '../src/lib/embedding-cache.js';
+import { CollectionManager } from '../src/lib/collections.js';
+import { SnapshotCatalog } from '../src/lib/snapshots.js';
+import { backupKeyFromEnv, encryptionKeyFromEnv } from '../src/lib/backup-encryption.js';
+import type {
+    BackupEncryption,
+    CollectionInfo,
+    ContextOptions,
+    QueryOptions,
+    QueryResult,
+    SearchMode,
+    SnapshotType,
+    VectorStoreBackendType,
+} from '../src/lib/types.js';
 import * as readline from 'readline';
 
 const program = new Command();
 
 // Initialize vector DB
-async function getVectorDB() {
-    const embedder = new GoogleAIEmbeddingFunction();
+async function getVectorDB(embedder = createEmbeddingFunction(process.env.EMBEDDING_PROVIDER)) {
     const vectorDB = new ProjectVectorDB({
-        chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
+        ...getBackendConfig(),
         collectionName: process.env.COLLECTION_NAME || 'project-docs',
         embeddingFunction: embedder,
+        embeddingCache: getEmbeddingCacheOptions(),
     });
     await vectorDB.initialize();
     return vectorDB;
 }
 
+// Backend connection settings (shared by every command)
+function getBackendConfig() {
+    return {
+        backend: (process.env.VECTORDB_BACKEND as VectorStoreBackendType) || 'chroma',
+        chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
+        localPath: process.env.VECTORDB_PATH || './.vectordb',
+    };
+}
+
+// Embedding cache location (shared by ingest, restore and the cache command);
+// the per-user cache directory unless VECTORDB_CACHE_DIR is set
+function getEmbeddingCacheOptions() {
+    return { dir: process.env.VECTORDB_CACHE_DIR };
+}
+
 program
     .name('vectordb')
     .description('CLI for Claude Code Vector Database')
@@ -46,22 +89,44 @@ program
     .option('-t, --threshold <number>', 'Minimum similarity threshold (0-1)', '0.7')
     .option('-c, --category <category>', 'Filter by category')
     .option('-s, --source <source>', 'Filter by source')
+    .option('-w, --where <filter>', 'Metadata filter as JSON or key:value tokens (e.g. "category:design,architecture category:!archive priority:>=80")')
+    .option('-m, --mode <mode>', 'Search mode: semantic, keyword or hybrid', 'semantic')
+    .option('-d, --diversity <number>', 'Rerank for diversity (0 = relevance only, 1 = max diversity)')
+    .option('--max-per-file <number>', 'Maximum results from the same file')
+    .option('--half-life <days>', 'Recency half-life in days for scoring', '180')
+    .option('--no-scoring', 'Rank on raw similarity, ignoring priority and recency')
+    .option('--collections <names>', 'Search several collections, comma-separated (prefix* matches a prefix, e.g. "docs-*")')
     .action(async (text, options) => {
         try {
             const vectorDB = await getVectorDB();
 
-            const results = await vectorDB.query(text, {
+            const queryOptions: QueryOptions = {
                 limit: parseInt(options.limit),
                 threshold: parseFloat(options.threshold),
                 category: options.category,
                 source: options.source,
-            });
+                where: options.where ? parseFilterExpression(options.where) : undefined,
+                mode: options.mode as SearchMode,
+                diversity: options.diversity !== undefined ? parseFloat(options.diversity) : undefined,
+                maxPerFile: options.maxPerFile !== undefined ? parseInt(options.maxPerFile) : undefined,
+                scoring: options.scoring
+                    ? { recencyHalfLifeDays: parseFloat(options.halfLife) }
+                    : false,
+            };
+
+            const collections: string[] = options.collections
+                ? options.collections.split(',').map((c: string) => c.trim()).filter(Boolean)
+                : [];
+            const results: (QueryResult & { project?: string })[] = collections.length > 0
+                ? await vectorDB.queryCollections(text, collections, queryOptions)
+                : await vectorDB.query(text, queryOptions);
 
-            console.log(`\n🔍 Query: "${text}"\n`);
+            console.log(`\n🔍 Query: "${text}" (${options.mode})\n`);
             console.log(`Found ${results.length} results:\n`);
 
             results.forEach((result, i) => {
-                console.log(`${i + 1}. Score: ${result.score.toFixed(3)} | ${result.metadata.title}`);
+                const project = result.project ? `[${result.project}] ` : '';
+                console.log(`${i + 1}. ${project}Score: ${result.score.toFixed(3)} (similarity ${result.similarity.toFixed(3)}) | ${result.metadata.title}`);
                 console.log(`   Category: ${result.metadata.category} | Source: ${result.metadata.source}`);
                 console.log(`   File: ${result.metadata.filePath}`);
                 console.log(`   Content: ${result.content.substring(0, 150)}...`);
@@ -73,33 +138,114 @@ program
         }
     });
 
+// Context command
+program
+    .command('context')
+    .description('Print the most relevant context for a task as markdown, within a token budget')
+    .argument('<text>', 'Task or question')
+    .option('-b, --budget <tokens>', 'Token budget (estimated at ~4 characters a token)', '4000')
+    .option('--max-per-file <number>', 'Maximum sections from the same file')
+    .option('-n, --neighbors <number>', 'Neighboring chunks to include on each side of every hit', '0')
+    .option('--candidates <number>', 'Search results to assemble the context from', '20')
+    .option('-t, --threshold <number>', 'Minimum similarity threshold (0-1)', '0.7')
+    .option('-c, --category <category>', 'Filter by category')
+    .option('-s, --source <source>', 'Filter by source')
+    .option('-w, --where <filter>', 'Metadata filter as JSON or key:value tokens')
+    .option('-m, --mode <mode>', 'Search mode: semantic, keyword or hybrid', 'semantic')
+    .option('--json', 'Print the sections and citations as JSON')
+    .action(async (text, options) => {
+        try {
+            // Keep stdout to the context alone, so it can be piped or pasted
+            const print = console.log;
+            console.log = console.error;
+
+            const vectorDB = await getVectorDB();
+
+            const contextOptions: ContextOptions = {
+                tokenBudget: parseInt(options.budget),
+                maxPerFile: options.maxPerFile !== undefined ? parseInt(options.maxPerFile) : undefined,
+                includeNeighbors: parseInt(options.neighbors),
+                candidates: parseInt(options.candidates),
+                threshold: parseFloat(options.threshold),
+                category: options.category,
+                source: options.source,
+                where: options.where ? parseFilterExpression(options.where) : undefined,
+                mode: options.mode as SearchMode,
+            };
+
+            const context = await vectorDB.getContext(text, contextOptions);
+
+            if (options.json) {
+                print(JSON.stringify(context, null, 2));
+                return;
+            }
+
+            print(context.markdown);
+            console.error(`${context.sections.length} sections, ~${context.tokens} of ${context.tokenBudget} tokens` +
+                (context.omitted > 0 ? ` (${context.omitted} hits left out)` : ''));
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
 // Stats command
 program
     .command('stats')
-    .description('Show collection statistics')
-    .action(async () => {
+    .description('Show collection statistics (computed over every document)')
+    .option('--json', 'Print the statistics as JSON')
+    .action(async (options) => {
         try {
+            // Keep stdout to the JSON alone; connection messages go to stderr
+            const print = console.log;
+            if (options.json) console.log = console.error;
+
             const vectorDB = await getVectorDB();
             const stats = await vectorDB.getStats();
 
+            if (options.json) {
+                print(JSON.stringify(stats, null, 2));
+                return;
+            }
+
+            const byCount = (counts: Record<string, number>) =>
+                Object.entries(counts).sort(([, a], [, b]) => b - a);
+
             console.log('\n📊 Collection Statistics:\n');
             console.log(`Total documents: ${stats.totalDocuments}`);
+            console.log(`Files: ${stats.files}`);
             console.log(`Average chunk size: ${stats.averageChunkSize} chars`);
-            console.log(`Last updated: ${new Date(stats.lastUpdated).toLocaleString()}`);
+            console.log(`Embedding model: ${stats.embedding.model || stats.embedding.provider || 'unknown'}` +
+                (stats.embedding.dimensions ? ` (${stats.embedding.dimensions} dimensions)` : ''));
+            console.log(`Last updated: ${stats.lastUpdated ? new Date(stats.lastUpdated).toLocaleString() : 'unknown'}`);
+            if (stats.oldestModified && stats.newestModified) {
+                console.log(`Documents modified: ${new Date(stats.oldestModified).toLocaleDateString()} – ${new Date(stats.newestModified).toLocaleDateString()}`);
+            }
 
             console.log('\n📂 Categories:');
-            Object.entries(stats.categories)
-                .sort(([, a], [, b]) => b - a)
-                .forEach(([cat, count]) => {
-                    console.log(`  ${cat}: ${count} chunks`);
-                });
+            byCount(stats.categories).forEach(([cat, count]) => {
+                console.log(`  ${cat}: ${count} chunks`);
+            });
 
             console.log('\n📝 Sources:');
-            Object.entries(stats.sources)
-                .sort(([, a], [, b]) => b - a)
-                .forEach(([src, count]) => {
-                    console.log(`  ${src}: ${count} chunks`);
+            byCount(stats.sources).forEach(([src, count]) => {
+                console.log(`  ${src}: ${count} chunks`);
+            });
+
+            if (Object.keys(stats.tags).length > 0) {
+                console.log('\n🏷️  Tags:');
+                byCount(stats.tags).forEach(([tag, count]) => {
+                    console.log(`  ${tag}: ${count} chunks`);
                 });
+            }
+
+            console.log('\n📏 Chunk sizes:');
+            const largest = Math.max(1, ...stats.chunkSizes.map(b => b.count));
+            for (const bucket of stats.chunkSizes) {
+                const range = bucket.max !== undefined ? `${bucket.min}-${bucket.max - 1}` : `${bucket.min}+`;
+                const bar = '█'.repeat(Math.round((bucket.count / largest) * 30));
+                console.log(`  ${range.padStart(9)} chars: ${String(bucket.count).padStart(6)} ${bar}`);
+            }
             console.log();
         } catch (error) {
             console.error('Error:', error instanceof Error ? error.message : error);
@@ -163,16 +309,140 @@ program
         }
     });
 
+// Backup key from --passphrase / --key-file, else VECTORDB_BACKUP_PASSPHRASE / VECTORDB_BACKUP_KEY_FILE
+function getBackupKey(options: { passphrase?: string; keyFile?: string }): BackupEncryption | undefined {
+    if (options.passphrase || options.keyFile) {
+        return { passphrase: options.passphrase, keyFile: options.keyFile };
+    }
+    return backupKeyFromEnv();
+}
+
+// Key to encrypt with, if --encrypt, --passphrase or --key-file was given
+// (from the environment, VECTORDB_BACKUP_KEY_FILE wins over VECTORDB_BACKUP_PASSPHRASE)
+function getEncryption(options: { encrypt?: boolean; passphrase?: string; keyFile?: string }): BackupEncryption | undefined {
+    if (!options.encrypt && !options.passphrase && !options.keyFile) return undefined;
+    if (options.passphrase || options.keyFile) {
+        return { passphrase: options.passphrase, keyFile: options.keyFile };
+    }
+    return encryptionKeyFromEnv() ?? {};
+}
+
 // Backup command
-program
+const backupCommand = program
     .command('backup')
-    .description('Export collection to a backup file')
-    .argument('<path>', 'Output file path (e.g., ./backup.jsonl)')
-    .action(async (path) => {
+    .description('Export collection to a backup file, or manage snapshots (snapshot, list, prune, restore)')
+    .argument('<path>', 'Output file path (e.g., ./backup.jsonl, or ./backup.jsonl.gz to compress)')
+    .option('--no-embeddings', 'Leave out embeddings (smaller file, but restores re-embed every document)')
+    .option('-z, --gzip', 'Compress with gzip (default when the path ends in .gz)')
+    .option('--encrypt', 'Encrypt with VECTORDB_BACKUP_PASSPHRASE or VECTORDB_BACKUP_KEY_FILE (AES-256-GCM)')
+    .option('--passphrase <passphrase>', 'Encrypt with this passphrase (visible in shell history; prefer --encrypt)')
+    .option('--key-file <path>', 'Encrypt with a key file (at least 32 bytes, e.g. from openssl rand -out backup.key 32)')
+    .action(async (path, options) => {
         try {
             const vectorDB = await getVectorDB();
-            await vectorDB.exportBackup(path);
-            console.log(`✅ Backup exported to ${path}`);
+            const header = await vectorDB.exportBackup(path, {
+                includeEmbeddings: options.embeddings,
+                gzip: options.gzip || path.endsWith('.gz'),
+                encryption: getEncryption(options),
+            });
+            const encrypted = header.encryption ? ', encrypted' : '';
+            console.log(`✅ Backup exported to ${path} (${header.documentCount} documents${encrypted}, checksum ${header.checksum?.slice(0, 12)})`);
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+// Snapshot directory (shared by every collection)
+function getSnapshotDir(dir?: string) {
+    return dir || process.env.VECTORDB_BACKUP_DIR || './backups';
+}
+
+backupCommand
+    .command('snapshot')
+    .description('Snapshot the collection, storing only what changed since the previous snapshot')
+    .option('-t, --type <type>', 'full, incremental (since the last snapshot) or differential (since the last full)', 'incremental')
+    .option('-d, --dir <dir>', 'Snapshot directory (default: VECTORDB_BACKUP_DIR or ./backups)')
+    .option('--no-embeddings', 'Leave out embeddings (restores re-embed every document)')
+    .option('--encrypt', 'Encrypt with VECTORDB_BACKUP_PASSPHRASE or VECTORDB_BACKUP_KEY_FILE (AES-256-GCM)')
+    .option('--passphrase <passphrase>', 'Encrypt with this passphrase (visible in shell history; prefer --encrypt)')
+    .option('--key-file <path>', 'Encrypt with a key file (at least 32 bytes)')
+    .action(async (options) => {
+        try {
+            const vectorDB = await getVectorDB();
+            const snapshot = await vectorDB.createSnapshot(getSnapshotDir(options.dir), {
+                type: options.type as SnapshotType,
+                includeEmbeddings: options.embeddings,
+                encryption: getEncryption(options),
+            });
+            console.log(`✅ ${snapshot.type} snapshot ${snapshot.id}: +${snapshot.added} ~${snapshot.changed} -${snapshot.deleted}`);
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+backupCommand
+    .command('list')
+    .description('Show the snapshot chain of each collection')
+    .option('-d, --dir <dir>', 'Snapshot directory (default: VECTORDB_BACKUP_DIR or ./backups)')
+    .action(async (options) => {
+        try {
+            const catalog = new SnapshotCatalog(getSnapshotDir(options.dir));
+            const snapshots = catalog.list();
+
+            console.log(`\n🗂️  Snapshots in ${catalog.dir} (${snapshots.length}):\n`);
+            for (const snapshot of snapshots) {
+                // Indent by how many snapshots a restore has to replay
+                const depth = catalog.chain(snapshot.id).length - 1;
+                const changes = snapshot.type === 'full'
+                    ? `${snapshot.documentCount} documents`
+                    : `+${snapshot.added} ~${snapshot.changed} -${snapshot.deleted} (${snapshot.documentCount} documents)`;
+                console.log(`${'  '.repeat(depth + 1)}${snapshot.id}  ${new Date(snapshot.createdAt).toLocaleString()}  ${changes}`);
+            }
+            console.log();
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+backupCommand
+    .command('prune')
+    .description('Delete snapshots outside the retention policy')
+    .option('--daily <number>', 'Keep the newest snapshot of each of the last N days', '7')
+    .option('--weekly <number>', 'Keep the newest snapshot of each of the last M weeks', '4')
+    .option('-d, --dir <dir>', 'Snapshot directory (default: VECTORDB_BACKUP_DIR or ./backups)')
+    .option('--dry-run', 'Only show what would be deleted')
+    .action(async (options) => {
+        try {
+            const catalog = new SnapshotCatalog(getSnapshotDir(options.dir));
+            const policy = { daily: parseInt(options.daily), weekly: parseInt(options.weekly) };
+            const collections = Array.from(new Set(catalog.list().map(s => s.collection)));
+
+            const removed = collections.flatMap(c => catalog.prune(c, policy, options.dryRun));
+            removed.forEach(s => console.log(`  ${options.dryRun ? 'Would delete' : 'Deleted'} ${s.id}`));
+            console.log(`✅ ${removed.length} snapshots ${options.dryRun ? 'to delete' : 'deleted'}.`);
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+backupCommand
+    .command('restore')
+    .description('Replace the collection with its state at a snapshot (swapped in only after the replay succeeds)')
+    .option('--at <snapshot>', 'Snapshot ID or date/time (default: newest snapshot)')
+    .option('-d, --dir <dir>', 'Snapshot directory (default: VECTORDB_BACKUP_DIR or ./backups)')
+    .option('--passphrase <passphrase>', 'Passphrase of encrypted snapshots (default: VECTORDB_BACKUP_PASSPHRASE)')
+    .option('--key-file <path>', 'Key file of encrypted snapshots (default: VECTORDB_BACKUP_KEY_FILE)')
+    .action(async (options) => {
+        try {
+            const vectorDB = await getVectorDB();
+            const target = await vectorDB.restoreSnapshot(getSnapshotDir(options.dir), options.at, {
+                encryption: getBackupKey(options),
+            });
+            console.log(`✅ Restored ${target.id}: ${target.documentCount} documents as of ${target.createdAt}`);
         } catch (error) {
             console.error('Error:', error instanceof Error ? error.message : error);
             process.exit(1);
@@ -183,12 +453,16 @@ program
 program
     .command('restore')
     .description('Import collection from a backup file')
-    .argument('<path>', 'Input file path (e.g., ./backup.jsonl)')
-    .option('--clear', 'Clear existing collection before restoring')
+    .argument('<path>', 'Input file path (e.g., ./backup.jsonl or ./backup.jsonl.gz)')
+    .option('--clear', 'Replace the collection (swapped in only after the restore succeeds)')
+    .option('--passphrase <passphrase>', 'Passphrase of an encrypted backup (default: VECTORDB_BACKUP_PASSPHRASE)')
+    .option('--key-file <path>', 'Key file of an encrypted backup (default: VECTORDB_BACKUP_KEY_FILE)')
     .action(async (path, options) => {
         try {
             const vectorDB = await getVectorDB();
-            await vectorDB.importBackup(path, options.clear || false);
+            await vectorDB.importBackup(path, options.clear || false, {
+                encryption: getBackupKey(options),
+            });
             console.log('✅ Backup restored successfully.');
         } catch (error) {
             console.error('Error:', error instanceof Error ? error.message : error);
@@ -196,4 +470,230 @@ program
         }
     });
 
+// Rollback command
+program
+    .command('rollback')
+    .description('Switch the collection back to the version before the last rebuild, clear or reindex')
+    .action(async () => {
+        try {
+            const vectorDB = await getVectorDB();
+            const alias = await vectorDB.rollback();
+            console.log(`Now serving ${alias.target} (rolled back from ${alias.previous})`);
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+// Reindex command
+program
+    .command('reindex')
+    .description('Re-embed every document with another embedding provider (resumable)')
+    .requiredOption('-p, --provider <name>', 'Embedding provider for the rebuilt collection (google, local, openai, ollama)')
+    .option('--model <model>', 'Model name for openai/ollama providers')
+    .option('--base-url <url>', 'Server URL for openai/ollama providers')
+    .option('-b, --batch-size <number>', 'Documents per batch', '100')
+    .action(async (options) => {
+        try {
+            const embedder = createEmbeddingFunction(options.provider, {
+                model: options.model,
+                baseUrl: options.baseUrl,
+            });
+            const vectorDB = await getVectorDB(embedder);
+            const before = vectorDB.getEmbeddingStatus().collection;
+
+            console.log(`\n🔁 Reindexing with ${embedder.modelId || options.provider}...\n`);
+            const result = await vectorDB.reindex(embedder, {
+                batchSize: parseInt(options.batchSize),
+                onProgress: (completed, total) => {
+                    process.stdout.write(`\r  ${completed}/${total} documents`);
+                },
+            });
+
+            console.log('\n');
+            console.log(`Previous model: ${before.model || 'unknown'}`);
+            console.log(`New model: ${result.model.model || options.provider}`);
+            console.log(`Documents: ${result.totalDocuments} (${result.reembedded} embedded, ${result.resumed} resumed)`);
+            console.log(`\nSet EMBEDDING_PROVIDER=${options.provider} so queries use the new model.\n`);
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+// Cache command
+const cacheCommand = program
+    .command('cache')
+    .description('Manage the on-disk embedding cache');
+
+cacheCommand
+    .command('stats')
+    .description('Show embedding cache statistics')
+    .action(async () => {
+        try {
+            const stats = new EmbeddingCache(getEmbeddingCacheOptions()).stats();
+            const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+            console.log('\n🗄️  Embedding Cache:\n');
+            console.log(`Directory: ${stats.dir}`);
+            console.log(`Entries: ${stats.entries} / ${stats.maxEntries}`);
+            console.log(`Size: ${toMB(stats.sizeBytes)} MB / ${toMB(stats.maxBytes)} MB`);
+            console.log();
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+cacheCommand
+    .command('clear')
+    .description('Remove every cached embedding')
+    .action(async () => {
+        try {
+            const removed = new EmbeddingCache(getEmbeddingCacheOptions()).clear();
+            console.log(`✅ Removed ${removed} cached embeddings.`);
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+// Collections command
+const collectionsCommand = program
+    .command('collections')
+    .description('List and manage collections on the backend');
+
+function formatCollection(info: CollectionInfo): string {
+    const model = info.embedding.model
+        || (info.embedding.dimensions ? `${info.embedding.dimensions} dimensions` : 'no embeddings yet');
+    const aliases = info.aliases.length > 0 ? ` (alias: ${info.aliases.join(', ')})` : '';
+    return `${info.name}${aliases}: ${info.count} documents, ${model}`;
+}
+
+collectionsCommand
+    .command('list')
+    .description('List every collection')
+    .action(async () => {
+        try {
+            const collections = await new CollectionManager(getBackendConfig()).list();
+
+            console.log(`\n📚 Collections (${collections.length}):\n`);
+            collections.forEach(info => console.log(`  ${formatCollection(info)}`));
+            console.log();
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+collectionsCommand
+    .command('info')
+    .description('Show document count, embedding model and creation date')
+    .argument('<name>', 'Collection or alias name')
+    .action(async (name) => {
+        try {
+            const info = await new CollectionManager(getBackendConfig()).info(name);
+
+            console.log(`\n📁 ${info.name}\n`);
+            if (info.aliases.length > 0) console.log(`Aliases: ${info.aliases.join(', ')}`);
+            console.log(`Documents: ${info.count}`);
+            console.log(`Embedding model: ${info.embedding.model || 'unknown'}`);
+            if (info.embedding.provider) console.log(`Embedding provider: ${info.embedding.provider}`);
+            if (info.embedding.dimensions) console.log(`Dimensions: ${info.embedding.dimensions}`);
+            console.log(`Created: ${info.created ? new Date(info.created).toLocaleString() : 'unknown'}`);
+            if (info.description) console.log(`Description: ${info.description}`);
+            console.log();
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+collectionsCommand
+    .command('create')
+    .description('Create an empty collection')
+    .argument('<name>', 'Collection name')
+    .option('-d, --description <text>', 'Collection description')
+    .action(async (name, options) => {
+        try {
+            await new CollectionManager(getBackendConfig()).create(name, options.description);
+            console.log(`✅ Created collection ${name}`);
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+collectionsCommand
+    .command('copy')
+    .description('Copy a collection with its embeddings')
+    .argument('<from>', 'Collection or alias to copy')
+    .argument('<to>', 'New collection name')
+    .action(async (from, to) => {
+        try {
+            const info = await new CollectionManager(getBackendConfig()).copy(from, to, {
+                onProgress: (completed, total) => {
+                    process.stdout.write(`\r  ${completed}/${total} documents`);
+                },
+            });
+            console.log(`\n✅ Copied ${info.count} documents from ${from} to ${to}`);
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+collectionsCommand
+    .command('rename')
+    .description('Rename a collection or alias')
+    .argument('<from>', 'Current name')
+    .argument('<to>', 'New name')
+    .action(async (from, to) => {
+        try {
+            await new CollectionManager(getBackendConfig()).rename(from, to);
+            console.log(`✅ Renamed ${from} to ${to}`);
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : error);
+            process.exit(1);
+        }
+    });
+
+collectionsCommand
+    .command('drop')
+    .description('Delete a collection (or an alias and all its versions)')
+    .argument('<name>', 'Collection or alias name')
+    .option('-y, --yes', 'Skip the confirmation prompt')
+    .action(async (name, options) => {
+        const drop = async () => {
+            try {
+                const dropped = await new CollectionManager(getBackendConfig()).drop(name);
+                console.log(`✅ Dropped ${dropped.join(', ')}`);
+            } catch (error) {
+                console.error('Error:', error instanceof Error ? error.message : error);
+                process.exit(1);
+            }
+        };
+
+        if (options.yes) {
+            await drop();
+            return;
+        }
+
+        // Prompt for confirmation
+        const rl = readline.createInterface({
+            input: process.stdin,
+            output: process.stdout,
+        });
+
+        rl.question(`⚠️  Are you sure you want to drop ${name}? (yes/no): `, async (answer) => {
+            rl.close();
+
+            if (answer.toLowerCase() !== 'yes') {
+                console.log('Operation cancelled.');
+                return;
+            }
+            await drop();
+        });
+    });
+
 program.parse();
@@ -9,22 +9,25 @@
  * - Recent vs outdated content
  */
 
-import { ChromaClient } from 'chromadb';
+import { CollectionManager, ProjectVectorDB, createVectorStoreBackend } from '../src/lib/client.js';
+import { createEmbeddingFunction } from '../src/lib/embeddings.js';
+import type { VectorDBConfig, VectorStoreBackendType } from '../src/lib/types.js';
 
 async function auditContent() {
   console.log('🔍 Vector Database Content Audit\n');
   console.log('================================\n');
 
   try {
-    // Connect to ChromaDB
-    const client = new ChromaClient({
-      host: 'localhost',
-      port: 8000,
-      ssl: false
-    });
+    // Connect to the configured backend
+    const config: VectorDBConfig = {
+      backend: (process.env.VECTORDB_BACKEND as VectorStoreBackendType) || 'chroma',
+      chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
+      localPath: process.env.VECTORDB_PATH || './.vectordb',
+    };
+    const backend = createVectorStoreBackend(config);
 
     // List all collections
-    const collections = await client.listCollections();
+    const collections = await new CollectionManager(config).list();
     console.log(`📚 Collections found: ${collections.length}`);
 
     if (collections.length === 0) {
@@ -36,14 +39,16 @@ async function auditContent() {
     for (const collectionInfo of collections) {
       console.log(`\n📁 Collection: ${collectionInfo.name}`);
       console.log('----------------------------');
-
-      // Get the collection
-      const collection = await client.getCollection({ name: collectionInfo.name });
+      if (collectionInfo.aliases.length > 0) {
+        console.log(`🔗 Aliases: ${collectionInfo.aliases.join(', ')}`);
+      }
+      console.log(`🧠 Embedding model: ${collectionInfo.embedding.model || 'unknown'}`);
 
       // Get all documents (for audit purposes)
+      const collection = await backend.openCollection(collectionInfo.name);
       const allDocs = await collection.get();
 
-      const totalDocs = allDocs.ids.length;
+      const totalDocs = allDocs.length;
       console.log(`📄 Total documents: ${totalDocs}`);
 
       if (totalDocs === 0) {
@@ -56,7 +61,7 @@ async function auditContent() {
       const sources = new Map<string, number>();
       const dates: Date[] = [];
 
-      allDocs.metadatas?.forEach((metadata: any) => {
+      allDocs.map(record => record.metadata).forEach((metadata: any) => {
         // Count categories
         if (metadata?.category) {
           categories.set(metadata.category, (categories.get(metadata.category) || 0) + 1);
@@ -129,18 +134,33 @@ async function auditContent() {
         'testing patterns'
       ];
 
-      for (const query of testQueries) {
-        const results = await collection.query({
-          queryTexts: [query],
-          nResults: 3
+      let db: ProjectVectorDB;
+      try {
+        db = new ProjectVectorDB({
+          ...config,
+          collectionName: collectionInfo.name,
+          embeddingFunction: createEmbeddingFunction(process.env.EMBEDDING_PROVIDER),
         });
+        await db.initialize();
+      } catch (error) {
+        console.log(`   ⚠️  Skipped: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+
+      if (!db.getEmbeddingStatus().compatible) {
+        console.log('   ⚠️  Skipped: collection was built with a different embedding model');
+        continue;
+      }
+
+      for (const query of testQueries) {
+        const results = await db.query(query, { limit: 3, threshold: 0, scoring: false });
 
-        const resultCount = results.ids[0]?.length || 0;
-        const avgDistance = results.distances?.[0]
-          ? (results.distances[0].reduce((a, b) => a + b, 0) / results.distances[0].length).toFixed(3)
+        const resultCount = results.length;
+        const avgSimilarity = resultCount > 0
+          ? (results.reduce((sum, r) => sum + r.similarity, 0) / resultCount).toFixed(3)
           : 'N/A';
 
-        console.log(`   - "${query}": ${resultCount} results (avg distance: ${avgDistance})`);
+        console.log(`   - "${query}": ${resultCount} results (avg similarity: ${avgSimilarity})`);
       }
     }
 
@@ -162,7 +182,7 @@ async function auditContent() {
   } catch (error) {
     console.error('❌ Audit failed:', error);
     console.log('\nTroubleshooting:');
-    console.log('1. Ensure ChromaDB is running: npm run chromadb:start');
+    console.log('1. Ensure ChromaDB is running: npm run chromadb:start (or set VECTORDB_BACKEND=local)');
     console.log('2. Check connection: curl http://localhost:8000');
     console.log('3. Verify port 8000 is not blocked');
   }
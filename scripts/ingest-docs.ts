@@ -17,13 +17,13 @@ import { glob } from 'glob';
 import matter from 'gray-matter';
 import crypto from 'crypto';
 import { ProjectVectorDB } from '../src/lib/client';
-import { GoogleAIEmbeddingFunction } from '../src/lib/embeddings';
-import type { VectorDocument } from '../src/lib/types';
+import { createEmbeddingFunction } from '../src/lib/embeddings';
+import type { VectorDocument, VectorStoreBackendType } from '../src/lib/types';
 
 // Configuration
 const CHUNK_SIZE = 800; // Characters per chunk (same as chatbot)
 const CHUNK_OVERLAP = 200; // Character overlap between chunks
-const COLLECTION_NAME = 'project-docs';
+const COLLECTION_NAME = process.env.COLLECTION_NAME || 'project-docs';
 
 /**
  * Generate a deterministic ID for a chunk
@@ -261,10 +261,12 @@ async function ingestDocs() {
 
   try {
     // Initialize Vector DB client
-    console.log('🔌 Connecting to ChromaDB...');
-    const embedder = new GoogleAIEmbeddingFunction();
+    console.log('🔌 Connecting to Vector DB...');
+    const embedder = createEmbeddingFunction(process.env.EMBEDDING_PROVIDER);
     const vectorDB = new ProjectVectorDB({
-      chromaUrl: 'http://localhost:8000',
+      backend: (process.env.VECTORDB_BACKEND as VectorStoreBackendType) || 'chroma',
+      chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
+      localPath: process.env.VECTORDB_PATH || './.vectordb',
       collectionName: COLLECTION_NAME,
       embeddingFunction: embedder,
     });
@@ -293,13 +295,6 @@ async function ingestDocs() {
       return;
     }
 
-    // Clear collection if requested
-    if (flags.clear) {
-      console.log('🗑️  Clearing existing collection...');
-      await vectorDB.clearCollection(true);
-      console.log('✅ Collection cleared\n');
-    }
-
     // Load documents from /docs folder
     console.log('📚 Loading documentation files...\n');
     const docsPath = path.join(process.cwd(), 'docs');
@@ -366,46 +361,61 @@ async function ingestDocs() {
 
     console.log(`\n📦 Total documents to ingest: ${documents.length}`);
 
-    // Ingest documents in batches
+    // With --clear, ingest into a new version of the collection and switch
+    // to it only once everything is in, so queries never see it half-built
+    const target = flags.clear ? await vectorDB.beginRebuild() : vectorDB;
+    if (flags.clear) {
+      console.log('\n🆕 Rebuilding into a new collection version (current one stays live until done)');
+    }
+
+    // Ingest documents file by file
     console.log('\n⚡ Generating embeddings and storing documents...');
     console.log('   (This may take a few minutes...)\n');
 
-    const batchSize = 50;
-    let successCount = 0;
-    let failedBatches: number[] = [];
+    // Each file's chunks are replaced as a set, so a file that shrank
+    // leaves no stale chunks behind; unchanged chunks (same content hash)
+    // are skipped, so re-running without --clear is cheap
+    const byFile = new Map<string, VectorDocument[]>();
+    for (const doc of documents) {
+      const filePath = doc.metadata.filePath!;
+      byFile.set(filePath, [...(byFile.get(filePath) || []), doc]);
+    }
 
-    for (let i = 0; i < documents.length; i += batchSize) {
-      const batch = documents.slice(i, i + batchSize);
-      const batchNumber = Math.floor(i / batchSize) + 1;
+    let successCount = 0;
+    let processedCount = 0;
+    const failedFiles: string[] = [];
+    const totals = { inserted: 0, updated: 0, unchanged: 0, removed: 0 };
 
+    for (const [filePath, chunks] of byFile) {
       try {
-        await vectorDB.addDocuments(batch);
-        successCount += batch.length;
+        const result = await target.replaceFileChunks(filePath, chunks);
+        totals.inserted += result.inserted;
+        totals.updated += result.updated;
+        totals.unchanged += result.unchanged;
+        totals.removed += result.removed;
+        successCount += chunks.length;
       } catch (error: any) {
-        console.error(`\n❌ Error in batch ${batchNumber} (docs ${i}-${i + batch.length - 1}):`);
+        console.error(`\n❌ Error in ${filePath} (${chunks.length} chunks, previous chunks kept):`);
         console.error(`   ${error.message}`);
-        failedBatches.push(batchNumber);
-
-        // Try to add documents one by one to identify the problematic one
-        console.log(`   Attempting to add documents individually...`);
-        for (let j = 0; j < batch.length; j++) {
-          try {
-            await vectorDB.addDocuments([batch[j]]);
-            successCount++;
-          } catch (individualError: any) {
-            console.error(`   ❌ Failed document ${i + j}: ${batch[j].id}`);
-            console.error(`      Source: ${batch[j].metadata.filePath}`);
-            console.error(`      Preview: ${batch[j].content.substring(0, 50)}...`);
-            // Continue with next document
-          }
-        }
+        failedFiles.push(filePath);
       }
 
-      const progress = Math.min(i + batchSize, documents.length);
-      const percentage = ((progress / documents.length) * 100).toFixed(1);
-      process.stdout.write(`\r   Progress: ${successCount}/${documents.length} (${percentage}%) - Failed batches: ${failedBatches.length}`);
+      processedCount += chunks.length;
+      const percentage = ((processedCount / documents.length) * 100).toFixed(1);
+      process.stdout.write(`\r   Progress: ${successCount}/${documents.length} (${percentage}%) - Failed files: ${failedFiles.length}`);
+    }
+    if (flags.clear) {
+      if (successCount < documents.length) {
+        await vectorDB.abortRebuild(target);
+        throw new Error(
+          `${documents.length - successCount} documents failed; discarded the rebuild and kept the current collection`
+        );
+      }
+      const alias = await vectorDB.commitRebuild(target);
+      console.log(`\n\n🔀 Switched ${alias.alias} to ${alias.target} (previous: ${alias.previous || 'none'})`);
     }
     console.log('\n\n✅ All documents ingested successfully!');
+    console.log(`   ${totals.inserted} new, ${totals.updated} updated, ${totals.unchanged} unchanged, ${totals.removed} stale removed`);
 
     // Show final stats
     const finalStats = await vectorDB.getStats();
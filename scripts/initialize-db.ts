@@ -7,7 +7,8 @@
  */
 
 import { ProjectVectorDB } from '../src/lib/client.js';
-import { GoogleAIEmbeddingFunction } from '../src/lib/embeddings.js';
+import { createEmbeddingFunction, HashingEmbeddingFunction } from '../src/lib/embeddings.js';
+import type { EmbeddingFunction, VectorStoreBackendType } from '../src/lib/types.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -16,28 +17,24 @@ async function initializeDB() {
 
   try {
     // Try to create embedding function
-    let embedder;
+    let embedder: EmbeddingFunction;
     try {
-      embedder = new GoogleAIEmbeddingFunction();
-      console.log('✅ Using Google AI embeddings');
+      embedder = createEmbeddingFunction(process.env.EMBEDDING_PROVIDER);
+      console.log(`✅ Using ${embedder.modelId} embeddings`);
     } catch (error) {
       console.log('⚠️  No Google AI API key found');
       console.log('   Set GOOGLE_GENERATIVE_AI_API_KEY environment variable');
-      console.log('   Proceeding without embeddings (limited functionality)');
-      // For now, we'll create a dummy embedder
-      embedder = {
-        embed: async (texts: string[]) => {
-          // Return random embeddings for testing
-          return texts.map(() => Array(768).fill(0).map(() => Math.random()));
-        }
-      };
+      console.log('   Falling back to offline hashed embeddings (lower search quality)');
+      embedder = new HashingEmbeddingFunction();
     }
 
     // Initialize the vector DB
     const db = new ProjectVectorDB({
-      chromaUrl: 'http://localhost:8000',
-      collectionName: 'project-docs',
-      embeddingFunction: embedder as any,
+      backend: (process.env.VECTORDB_BACKEND as VectorStoreBackendType) || 'chroma',
+      chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
+      localPath: process.env.VECTORDB_PATH || './.vectordb',
+      collectionName: process.env.COLLECTION_NAME || 'project-docs',
+      embeddingFunction: embedder,
     });
 
     await db.initialize();
@@ -47,7 +44,7 @@ async function initializeDB() {
     const stats = await db.getStats();
     console.log(`\n📊 Current Status:`);
     console.log(`   Documents: ${stats.totalDocuments}`);
-    console.log(`   Categories: ${stats.categories.join(', ') || 'none'}`);
+    console.log(`   Categories: ${Object.keys(stats.categories).join(', ') || 'none'}`);
 
     // Add some initial test documents if empty
     if (stats.totalDocuments === 0) {
@@ -138,7 +135,7 @@ async function initializeDB() {
 
       // Test a query
       console.log('\n🧪 Testing search functionality...');
-      const results = await db.query('authentication', { limit: 2 });
+      const results = await db.query('authentication', { limit: 2, threshold: 0 });
       console.log(`   Found ${results.length} results for "authentication"`);
       if (results.length > 0) {
         console.log(`   Top result: ${results[0].metadata.title} (score: ${results[0].score.toFixed(3)})`);
@@ -150,8 +147,8 @@ async function initializeDB() {
     console.log('\n✅ Database Ready!');
     console.log('================================');
     console.log(`📄 Total documents: ${finalStats.totalDocuments}`);
-    console.log(`📁 Categories: ${finalStats.categories.join(', ')}`);
-    console.log(`📂 Sources: ${finalStats.sources.join(', ')}`);
+    console.log(`📁 Categories: ${Object.keys(finalStats.categories).join(', ')}`);
+    console.log(`📂 Sources: ${Object.keys(finalStats.sources).join(', ')}`);
     console.log('\n🎯 The agent skill can now use the vector database');
     console.log('   Try: "search for authentication patterns"');
 
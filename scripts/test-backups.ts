@@ -0,0 +1,164 @@
+#!/usr/bin/env tsx
+/**
+ * Test script for snapshots and encrypted backups
+ * Uses the local backend in a temporary directory and the offline hashing
+ * embeddings, so no server or API key is needed. Covers the snapshot
+ * chain (full, incremental, differential) and restoring from it, the
+ * retention policy, and that encrypted backups refuse a wrong key or a
+ * modified file, including a modified envelope.
+ *
+ * Run: npx tsx scripts/test-backups.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import assert from 'assert/strict';
+import { ProjectVectorDB } from '../src/lib/client';
+import { HashingEmbeddingFunction } from '../src/lib/embeddings';
+import { SnapshotCatalog } from '../src/lib/snapshots';
+import { verifyBackup } from '../src/lib/backup';
+import type { SnapshotInfo, SnapshotType, VectorDocument } from '../src/lib/types';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vectordb-backups-'));
+
+function doc(id: string, content: string): VectorDocument {
+  return { id, content, metadata: { source: 'docs' } };
+}
+
+async function contents(db: ProjectVectorDB): Promise<Record<string, string>> {
+  const documents = await db.getAllDocuments();
+  return Object.fromEntries(documents.map(d => [d.id, d.content]).sort());
+}
+
+// Snapshot IDs and createdAt only have millisecond precision
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+// Fill the first line (the envelope) back in after editing its JSON
+function editEnvelope(filePath: string, edit: (encryption: any) => void): void {
+  const raw = fs.readFileSync(filePath);
+  const newline = raw.indexOf('\n');
+  const envelope = JSON.parse(raw.subarray(0, newline).toString('utf8'));
+  edit(envelope.encryption);
+  fs.writeFileSync(filePath, Buffer.concat([Buffer.from(JSON.stringify(envelope)), raw.subarray(newline)]));
+}
+
+async function testBackups() {
+  console.log('🧪 Testing snapshots and encrypted backups...\n');
+
+  try {
+    const db = new ProjectVectorDB({
+      backend: 'local',
+      localPath: path.join(tmpDir, 'data'),
+      collectionName: 'backups',
+      embeddingFunction: new HashingEmbeddingFunction(),
+    });
+    await db.initialize();
+    const snapshotDir = path.join(tmpDir, 'snapshots');
+
+    // 1. Snapshot chain
+    console.log('1️⃣  Full, incremental and differential snapshots...');
+    await db.addDocuments([doc('a', 'alpha'), doc('b', 'beta')]);
+    const full = await db.createSnapshot(snapshotDir, { type: 'full' });
+    await tick();
+
+    await db.addDocuments([doc('c', 'gamma')]);
+    const incremental = await db.createSnapshot(snapshotDir);
+    await tick();
+
+    await db.updateDocuments([doc('a', 'alpha v2')]);
+    await db.deleteDocuments(['b']);
+    const differential = await db.createSnapshot(snapshotDir, { type: 'differential' });
+
+    assert.deepEqual([full.type, full.documentCount, full.added], ['full', 2, 2]);
+    assert.deepEqual([incremental.type, incremental.parent, incremental.added, incremental.changed], ['incremental', full.id, 1, 0]);
+    assert.equal(differential.parent, full.id, 'differential snapshots build on the last full one');
+    assert.deepEqual([differential.added, differential.changed, differential.deleted], [1, 1, 1]);
+
+    const catalog = new SnapshotCatalog(snapshotDir);
+    assert.deepEqual(catalog.chain(incremental.id).map(s => s.id), [full.id, incremental.id]);
+    assert.deepEqual(catalog.chain(differential.id).map(s => s.id), [full.id, differential.id]);
+    console.log('✅ Changes counted against the right parent\n');
+
+    // 2. Restore
+    console.log('2️⃣  Restoring earlier states...');
+    await db.restoreSnapshot(snapshotDir, incremental.id);
+    assert.deepEqual(await contents(db), { a: 'alpha', b: 'beta', c: 'gamma' });
+
+    await db.restoreSnapshot(snapshotDir);
+    assert.deepEqual(await contents(db), { a: 'alpha v2', c: 'gamma' });
+
+    assert.throws(() => catalog.resolve('other-collection', full.id), /is of collection backups/);
+    assert.throws(() => catalog.resolve('backups', '2000-01-01'), /No snapshot of backups at or before/);
+    console.log('✅ Each snapshot restores its own state\n');
+
+    // 3. Retention
+    console.log('3️⃣  Retention policy...');
+    const retention = new SnapshotCatalog(path.join(tmpDir, 'retention'));
+    fs.mkdirSync(retention.dir);
+    const add = (id: string, type: SnapshotType, createdAt: string, parent?: string) => {
+      const snapshot: SnapshotInfo = {
+        id, type, collection: 'docs', createdAt, parent, file: `${id}.jsonl.gz`,
+        documentCount: 0, added: 0, changed: 0, deleted: 0,
+      };
+      retention.add(snapshot, new Map());
+    };
+    add('f0', 'full', '2024-05-20T12:00:00.000Z');
+    add('f1', 'full', '2024-06-03T12:00:00.000Z');
+    add('i1', 'incremental', '2024-06-05T12:00:00.000Z', 'f1');
+    add('f2', 'full', '2024-06-10T12:00:00.000Z');
+    add('i2', 'incremental', '2024-06-12T08:00:00.000Z', 'f2');
+    add('i3', 'incremental', '2024-06-12T18:00:00.000Z', 'i2');
+
+    // Two weeks keep i1 (newest of the week of June 3), and with it f1
+    assert.deepEqual(retention.prune('docs', { daily: 1, weekly: 2 }, true).map(s => s.id), ['f0']);
+    assert.equal(retention.list('docs').length, 6, 'a dry run deletes nothing');
+
+    // One day and one week keep only i3 and the chain it replays
+    const removed = retention.prune('docs', { daily: 1, weekly: 1 });
+    assert.deepEqual(removed.map(s => s.id).sort(), ['f0', 'f1', 'i1']);
+    assert.deepEqual(retention.list('docs').map(s => s.id), ['f2', 'i2', 'i3']);
+    console.log('✅ Kept snapshots stay restorable\n');
+
+    // 4. Encrypted backups
+    console.log('4️⃣  Encrypted backup authentication...');
+    const passphrase = 'correct horse battery staple';
+    const backupPath = path.join(tmpDir, 'backup.jsonl.enc');
+    await db.exportBackup(backupPath, { encryption: { passphrase } });
+
+    const header = await verifyBackup(backupPath, { passphrase });
+    assert.equal(header.documentCount, 2);
+    await assert.rejects(verifyBackup(backupPath, { passphrase: 'wrong' }), /wrong passphrase/);
+    await assert.rejects(verifyBackup(backupPath), /provide the passphrase/);
+
+    const original = fs.readFileSync(backupPath);
+    const tampered = path.join(tmpDir, 'tampered.jsonl.enc');
+
+    fs.copyFileSync(backupPath, tampered);
+    editEnvelope(tampered, encryption => { encryption.compressed = !encryption.compressed; });
+    await assert.rejects(verifyBackup(tampered, { passphrase }), /authentication failed/);
+
+    fs.copyFileSync(backupPath, tampered);
+    editEnvelope(tampered, encryption => { encryption.scrypt.N = 2 ** 30; });
+    await assert.rejects(verifyBackup(tampered, { passphrase }), /Unsupported backup key derivation parameters/);
+
+    const flipped = Buffer.from(original);
+    flipped[flipped.length - 40] ^= 1;
+    fs.writeFileSync(tampered, flipped);
+    await assert.rejects(verifyBackup(tampered, { passphrase }), /authentication failed/);
+
+    fs.writeFileSync(tampered, original.subarray(0, original.length - 8));
+    await assert.rejects(verifyBackup(tampered, { passphrase }), /authentication failed|truncated/);
+    console.log('✅ Wrong keys and modified files are refused\n');
+
+    console.log('🎉 All backup tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+// Run the test
+testBackups();
@@ -0,0 +1,132 @@
+#!/usr/bin/env tsx
+/**
+ * Test script for chunk stitching and context assembly
+ * Uses the local backend in a temporary directory and the offline hashing
+ * embeddings, so no server or API key is needed. Splits a file into
+ * overlapping chunks and checks that neighbors and context sections
+ * stitch back into the original text, with citations, within the budget.
+ *
+ * Run: npx tsx scripts/test-context.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import assert from 'assert/strict';
+import { ProjectVectorDB } from '../src/lib/client';
+import { HashingEmbeddingFunction } from '../src/lib/embeddings';
+import { sortChunks, stitchChunks } from '../src/lib/chunks';
+import { buildSection, formatContext, mergeSpans } from '../src/lib/context';
+import type { ContextSpan } from '../src/lib/context';
+import type { VectorDocument } from '../src/lib/types';
+
+const localPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vectordb-context-'));
+
+const CHUNK_SIZE = 300;
+const CHUNK_STEP = 250; // 50 characters of overlap
+
+const text = Array.from({ length: 40 }, (_, i) => `Sentence ${i} is about topic${i}.`).join(' ');
+
+// Overlapping chunks the way ingestion makes them
+function chunkFile(filePath: string, title: string): VectorDocument[] {
+  const contents: string[] = [];
+  for (let start = 0; ; start += CHUNK_STEP) {
+    contents.push(text.slice(start, start + CHUNK_SIZE));
+    if (start + CHUNK_SIZE >= text.length) break;
+  }
+  return contents.map((content, i) => ({
+    id: `${filePath}#${i}`,
+    content,
+    metadata: { source: 'docs', filePath, title, chunkIndex: i, totalChunks: contents.length },
+  }));
+}
+
+function span(filePath: string, start: number, end: number, score: number): ContextSpan {
+  return { filePath, start, end, score, hits: [] };
+}
+
+async function testContext() {
+  console.log('🧪 Testing chunk stitching and context assembly...\n');
+
+  try {
+    const chunks = chunkFile('docs/topics.md', 'Topics');
+    assert.ok(chunks.length >= 4);
+
+    // 1. Stitching
+    console.log('1️⃣  Stitching chunks...');
+    const shuffled = [chunks[2], chunks[0], chunks[3], chunks[1]];
+    assert.deepEqual(sortChunks(shuffled).map(c => c.id), chunks.slice(0, 4).map(c => c.id));
+    assert.equal(stitchChunks(chunks), text, 'overlaps are removed');
+    assert.equal(
+      stitchChunks([chunks[0], chunks[2]]),
+      `${chunks[0].content}\n\n…\n\n${chunks[2].content}`,
+      'missing chunks are marked'
+    );
+    console.log('✅ Overlaps removed, gaps marked\n');
+
+    // 2. Spans and sections
+    console.log('2️⃣  Merging spans and citing sections...');
+    const merged = mergeSpans([
+      span('a.md', 0, 1, 0.5),
+      span('a.md', 2, 3, 0.9), // Touches the first
+      span('a.md', 6, 6, 0.4),
+      span('b.md', 0, 0, 0.7),
+    ]);
+    assert.deepEqual(
+      merged.map(s => [s.filePath, s.start, s.end, s.score]),
+      [['a.md', 0, 3, 0.9], ['b.md', 0, 0, 0.7], ['a.md', 6, 6, 0.4]]
+    );
+
+    const section = buildSection(chunks.slice(1, 3), 0.8, 1);
+    assert.deepEqual([section.chunkStart, section.chunkEnd, section.totalChunks], [1, 2, chunks.length]);
+    assert.ok(formatContext('topics', [section]).startsWith(
+      `# Context: topics\n\n## [1] Topics — docs/topics.md (chunks 2-3 of ${chunks.length})\n\n`
+    ));
+    console.log('✅ Spans merged per file, citations numbered from 1\n');
+
+    const db = new ProjectVectorDB({
+      backend: 'local',
+      localPath,
+      collectionName: 'context',
+      embeddingFunction: new HashingEmbeddingFunction(),
+    });
+    await db.initialize();
+    await db.addDocuments(chunks);
+
+    // 3. Neighbors
+    console.log('3️⃣  Reading a chunk with its neighbors...');
+    const neighbors = await db.getNeighbors(chunks[1].id);
+    assert.ok(neighbors);
+    assert.deepEqual(neighbors.before.map(c => c.id), [chunks[0].id]);
+    assert.deepEqual(neighbors.after.map(c => c.id), [chunks[2].id]);
+    assert.equal(neighbors.context, stitchChunks(chunks.slice(0, 3)));
+    assert.equal(await db.getNeighbors('missing'), null);
+    console.log('✅ Neighbors in reading order\n');
+
+    // 4. Context within a budget
+    console.log('4️⃣  Assembling context...');
+    const hitIndex = chunks.findIndex(c => c.content.includes('topic20.'));
+    const context = await db.getContext('topic20', { mode: 'keyword', threshold: 0, includeNeighbors: 1 });
+    const [first] = context.sections;
+    assert.equal(first.filePath, 'docs/topics.md');
+    assert.ok(first.chunkStart! <= hitIndex - 1 && first.chunkEnd! >= hitIndex + 1);
+    assert.ok(text.includes(first.content), 'the section is a contiguous piece of the file');
+    assert.ok(context.tokens <= context.tokenBudget);
+
+    const tight = await db.getContext('topic20', { mode: 'keyword', threshold: 0, includeNeighbors: 1, tokenBudget: 120 });
+    assert.ok(tight.tokens <= 120, `${tight.tokens} tokens over a budget of 120`);
+    assert.ok(tight.sections[0].content.includes('topic20.'), 'trimming keeps the best hit');
+    assert.ok(tight.sections[0].ids.length < first.ids.length);
+    console.log('✅ Sections stitched, cited and trimmed to the budget\n');
+
+    console.log('🎉 All context tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(localPath, { recursive: true, force: true });
+  }
+}
+
+// Run the test
+testContext();
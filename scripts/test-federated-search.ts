@@ -0,0 +1,83 @@
+#!/usr/bin/env tsx
+/**
+ * Test script for searching several collections at once
+ * Uses the local backend in a temporary directory and the offline hashing
+ * embeddings, so no server or API key is needed. Checks that a weak hit
+ * from an unrelated collection doesn't outrank strong hits from a
+ * relevant one, with and without score normalization.
+ *
+ * Run: npx tsx scripts/test-federated-search.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import assert from 'assert/strict';
+import { ProjectVectorDB } from '../src/lib/client';
+import { HashingEmbeddingFunction } from '../src/lib/embeddings';
+import type { VectorDocument } from '../src/lib/types';
+
+const localPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vectordb-federated-'));
+
+async function openCollection(collectionName: string, documents: VectorDocument[]) {
+  const db = new ProjectVectorDB({
+    backend: 'local',
+    localPath,
+    collectionName,
+    embeddingFunction: new HashingEmbeddingFunction(),
+    embeddingCache: false,
+  });
+  await db.initialize();
+  await db.addDocuments(documents);
+  return db;
+}
+
+async function testFederatedSearch() {
+  console.log('🧪 Testing federated search...\n');
+
+  try {
+    const auth = await openCollection('docs-auth', [
+      { id: 'auth-1', content: 'Auth middleware validates the session token and refreshes it', metadata: { source: 'docs' } },
+      { id: 'auth-2', content: 'The auth middleware rejects expired session tokens', metadata: { source: 'docs' } },
+    ]);
+    await openCollection('docs-style', [
+      { id: 'style-1', content: 'Tailwind utility classes and color tokens for buttons', metadata: { source: 'docs' } },
+    ]);
+
+    const query = 'auth middleware session token';
+    const options = { threshold: 0, scoring: false as const, limit: 10 };
+
+    // 1. Normalized scores
+    console.log('1️⃣  Weak collection vs strong collection (normalized)...');
+    const normalized = await auth.queryCollections(query, ['docs-*'], options);
+    const ids = normalized.map(r => r.id);
+    assert.deepEqual(ids.slice(0, 2).sort(), ['auth-1', 'auth-2']);
+    assert.equal(ids[2], 'style-1');
+    assert.equal(normalized[0].score, 1);
+
+    const weak = normalized.find(r => r.id === 'style-1')!;
+    assert.ok(weak.score < 1, 'the unrelated collection\'s best hit must not be scaled up to 1');
+    assert.equal(weak.collection, 'docs-style');
+    assert.equal(weak.project, 'style');
+    console.log('✅ The unrelated hit ranks last, below 1\n');
+
+    // 2. Raw scores
+    console.log('2️⃣  Same order without normalization...');
+    const raw = await auth.queryCollections(query, ['docs-*'], { ...options, normalizeScores: false });
+    assert.deepEqual(raw.map(r => r.id), ids);
+    for (const result of raw) {
+      assert.equal(result.score, result.similarity);
+    }
+    console.log('✅ Normalizing only rescales\n');
+
+    console.log('🎉 All federated search tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(localPath, { recursive: true, force: true });
+  }
+}
+
+// Run the test
+testFederatedSearch();
@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+/**
+ * Test script for metadata filters
+ * Checks what the filter compiler emits, then runs the same filters
+ * against the local backend (temporary directory, offline hashing
+ * embeddings) and compares the matches with the documented semantics:
+ * `$not` is pushed down by De Morgan, and `$ne` / `$nin` / negated
+ * comparisons only match documents that have the field, as in Chroma.
+ *
+ * Run: npx tsx scripts/test-filters.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import assert from 'assert/strict';
+import { ProjectVectorDB } from '../src/lib/client';
+import { HashingEmbeddingFunction } from '../src/lib/embeddings';
+import { compileFilter, toFilterExpression } from '../src/lib/filters';
+import type { MetadataFilter, VectorDocument } from '../src/lib/types';
+
+const localPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vectordb-filters-'));
+
+const documents: VectorDocument[] = [
+  {
+    id: 'auth',
+    content: 'Auth middleware validates the session token',
+    metadata: { source: 'docs', category: 'architecture', priority: 90, tags: ['auth', 'security'], lastModified: '2024-03-01T00:00:00Z' },
+  },
+  {
+    id: 'style',
+    content: 'Tailwind utility classes for buttons',
+    metadata: { source: 'docs', category: 'design', priority: 40, tags: ['ui'], lastModified: '2024-01-15T00:00:00Z' },
+  },
+  {
+    id: 'memory',
+    content: 'Decided to keep sessions in Redis',
+    metadata: { source: 'memory-bank', category: 'architecture', tags: ['auth'] },
+  },
+  {
+    id: 'readme',
+    content: 'Project overview and setup',
+    metadata: { source: 'claude-md' },
+  },
+];
+
+async function matching(db: ProjectVectorDB, where: MetadataFilter): Promise<string[]> {
+  return (await db.getAllDocuments(undefined, { where })).map(d => d.id).sort();
+}
+
+async function testFilters() {
+  console.log('🧪 Testing metadata filters...\n');
+
+  try {
+    // 1. Compiled output
+    console.log('1️⃣  Compiling filters...');
+    assert.deepEqual(compileFilter({ $not: { priority: { $gte: 80 } } }).where, { priority: { $lt: 80 } });
+    assert.deepEqual(compileFilter({ $not: { $or: [{ category: 'design' }, { source: 'docs' }] } }).where, {
+      $and: [{ category: { $ne: 'design' } }, { source: { $ne: 'docs' } }],
+    });
+    assert.deepEqual(compileFilter({ $not: { category: { $in: ['design', 'chatbot'] } } }).where, {
+      category: { $nin: ['design', 'chatbot'] },
+    });
+    assert.deepEqual(compileFilter({ $not: { $contains: 'Redis' } }), { whereDocument: { $not_contains: 'Redis' } });
+    assert.deepEqual(compileFilter({ tags: { $in: ['auth', 'ui'] } }), {
+      where: { $or: [{ tag_auth: true }, { tag_ui: true }] },
+    });
+    assert.deepEqual(compileFilter({ lastModified: { $gte: '2024-02-01T00:00:00Z' } }), {
+      where: { lastModifiedTs: { $gte: Date.parse('2024-02-01T00:00:00Z') } },
+    });
+    assert.deepEqual(compileFilter(toFilterExpression({ category: 'architecture', tags: ['auth'] })).where, {
+      $and: [{ category: 'architecture' }, { tag_auth: true }],
+    });
+    console.log('✅ Negations pushed to the leaves, tags and dates mapped\n');
+
+    // 2. Invalid filters
+    console.log('2️⃣  Rejecting invalid filters...');
+    assert.throws(() => compileFilter({ priority: { $like: 1 } } as MetadataFilter), /unknown operator/);
+    assert.throws(() => compileFilter({ priority: { $gt: 'high' } }), /expected a number/);
+    assert.throws(() => compileFilter({ $not: { tags: 'auth' } }), /negated tag filters/);
+    assert.throws(() => compileFilter({ $or: [{ category: 'design' }, { $contains: 'x' }] }), /cannot mix/);
+    assert.throws(() => compileFilter({ $not: { $and: [{ category: 'design' }, { $contains: 'x' }] } }), /cannot mix/);
+    assert.throws(() => compileFilter({ lastModified: { $gte: 'yesterday' } }), /not a date/);
+    console.log('✅ Errors name the problem\n');
+
+    const db = new ProjectVectorDB({
+      backend: 'local',
+      localPath,
+      collectionName: 'filters',
+      embeddingFunction: new HashingEmbeddingFunction(),
+    });
+    await db.initialize();
+    await db.addDocuments(documents);
+
+    // 3. Missing fields
+    console.log('3️⃣  $ne, $nin and $not on documents without the field...');
+    assert.deepEqual(await matching(db, { priority: { $ne: 90 } }), ['style']);
+    assert.deepEqual(await matching(db, { category: { $nin: ['design'] } }), ['auth', 'memory']);
+    assert.deepEqual(await matching(db, { $not: { priority: { $gte: 80 } } }), ['style']);
+    assert.deepEqual(await matching(db, { $not: { category: 'design' } }), ['auth', 'memory']);
+    console.log('✅ Only documents that have the field match\n');
+
+    // 4. De Morgan
+    console.log('4️⃣  $not over $and / $or...');
+    assert.deepEqual(
+      await matching(db, { $not: { $or: [{ category: 'design' }, { source: 'memory-bank' }] } }),
+      ['auth']
+    );
+    assert.deepEqual(
+      await matching(db, { $not: { $and: [{ category: 'architecture' }, { source: 'docs' }] } }),
+      ['memory', 'readme', 'style'] // readme has no category but matches on source
+    );
+    assert.deepEqual(await matching(db, { $not: { $contains: 'session' } }), ['readme', 'style']);
+    console.log('✅ Same matches as the pushed-down filter\n');
+
+    // 5. Tags, dates and content
+    console.log('5️⃣  Tags, dates and content...');
+    assert.deepEqual(await matching(db, { tags: 'auth' }), ['auth', 'memory']);
+    assert.deepEqual(await matching(db, { tags: { $in: ['ui', 'security'] } }), ['auth', 'style']);
+    assert.deepEqual(await matching(db, { lastModified: { $gte: '2024-02-01T00:00:00Z' } }), ['auth']);
+    assert.deepEqual(await matching(db, { $contains: 'Tailwind', source: 'docs' }), ['style']);
+    assert.deepEqual(
+      (await db.getAllDocuments(undefined, { dateRange: { start: new Date('2024-01-01'), end: new Date('2024-02-01') } }))
+        .map(d => d.id),
+      ['style']
+    );
+    console.log('✅ Filterable copies match like the originals\n');
+
+    console.log('🎉 All filter tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(localPath, { recursive: true, force: true });
+  }
+}
+
+// Run the test
+testFilters();
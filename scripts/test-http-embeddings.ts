@@ -0,0 +1,143 @@
+#!/usr/bin/env tsx
+/**
+ * Test script for the HTTP embedding provider
+ * Runs HttpEmbeddingFunction against a stand-in server on localhost, so
+ * no embedding server or API key is needed. Covers the OpenAI and Ollama
+ * request and response shapes, the model identity and the retry on a
+ * non-2xx response.
+ *
+ * Run: npx tsx scripts/test-http-embeddings.ts
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import assert from 'assert/strict';
+import { HttpEmbeddingFunction } from '../src/lib/embeddings';
+
+interface RecordedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const requests: RecordedRequest[] = [];
+let failuresLeft = 0; // Next requests to answer with a 503
+
+// Deterministic vector for a text
+function fakeEmbedding(text: string): number[] {
+  return [text.length, text.charCodeAt(0) || 0, 1];
+}
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    const body = raw ? JSON.parse(raw) : undefined;
+    requests.push({ url: req.url || '', headers: req.headers, body });
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      res.writeHead(503, { 'Content-Type': 'text/plain' });
+      res.end('overloaded');
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    if (req.url === '/v1/embeddings') {
+      // Reversed, to check results are put back in input order
+      const data = (body.input as string[])
+        .map((text, index) => ({ object: 'embedding', index, embedding: fakeEmbedding(text) }))
+        .reverse();
+      res.end(JSON.stringify({ object: 'list', data, model: body.model }));
+    } else if (req.url === '/api/embeddings') {
+      res.end(JSON.stringify({ embedding: fakeEmbedding(body.prompt) }));
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+});
+
+async function testHttpEmbeddings() {
+  console.log('🧪 Testing HTTP embedding provider...\n');
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    // 1. OpenAI-compatible /v1/embeddings
+    console.log('1️⃣  OpenAI request and response shape...');
+    const openai = new HttpEmbeddingFunction({
+      api: 'openai',
+      baseUrl: `${baseUrl}/v1`,
+      model: 'test-model',
+      apiKey: 'test-key',
+      batchSize: 2,
+    });
+    const texts = ['alpha', 'beta', 'gamma'];
+    const embeddings = await openai.generateBatch(texts);
+
+    assert.deepEqual(embeddings, texts.map(fakeEmbedding));
+    assert.equal(requests.length, 2, 'three texts in batches of two take two requests');
+    assert.equal(requests[0].url, '/v1/embeddings');
+    assert.deepEqual(requests[0].body, { model: 'test-model', input: ['alpha', 'beta'] });
+    assert.equal(requests[0].headers.authorization, 'Bearer test-key');
+    assert.equal(openai.dimensions, 3, 'learned from the first response');
+    console.log('✅ Batched, in input order, with the Bearer token\n');
+
+    // 2. Model identity
+    console.log('2️⃣  Model id includes the server...');
+    const host = new URL(baseUrl).host;
+    assert.equal(openai.modelId, `openai/test-model@${host}`);
+    assert.equal(new HttpEmbeddingFunction({ api: 'openai', baseUrl: `${baseUrl}/`, model: 'test-model' }).modelId, openai.modelId);
+    assert.notEqual(new HttpEmbeddingFunction({ api: 'openai', baseUrl: 'http://other-host:8000/v1', model: 'test-model' }).modelId, openai.modelId);
+    assert.equal(new HttpEmbeddingFunction({ api: 'ollama' }).modelId, 'ollama/nomic-embed-text@localhost:11434');
+    assert.equal(new HttpEmbeddingFunction({ api: 'ollama' }).dimensions, 768);
+    assert.throws(() => new HttpEmbeddingFunction({ baseUrl: 'not a url' }), /Invalid embedding base URL/);
+    console.log('✅ Same server, same id; another server, another id\n');
+
+    // 3. Ollama /api/embeddings
+    console.log('3️⃣  Ollama request and response shape...');
+    requests.length = 0;
+    const ollama = new HttpEmbeddingFunction({ api: 'ollama', baseUrl, model: 'nomic-embed-text' });
+
+    assert.deepEqual(await ollama.generate('delta'), fakeEmbedding('delta'));
+    assert.deepEqual(await ollama.generateBatch(['x', 'yy']), [fakeEmbedding('x'), fakeEmbedding('yy')]);
+    assert.equal(requests.length, 3, 'Ollama embeds one text per request');
+    assert.equal(requests[0].url, '/api/embeddings');
+    assert.deepEqual(requests[0].body, { model: 'nomic-embed-text', prompt: 'delta' });
+    assert.equal(requests[0].headers.authorization, undefined);
+    console.log('✅ One prompt per request, no Authorization header\n');
+
+    // 4. Retry on a transient status
+    console.log('4️⃣  Retry after a 503...');
+    requests.length = 0;
+    failuresLeft = 2;
+    const retrying = new HttpEmbeddingFunction({ api: 'openai', baseUrl, baseDelayMs: 1, maxDelayMs: 5 });
+
+    assert.deepEqual(await retrying.generate('epsilon'), fakeEmbedding('epsilon'));
+    assert.equal(requests.length, 3, 'two 503s, then success');
+    console.log('✅ Retried twice, then succeeded\n');
+
+    // 5. Giving up once retries run out
+    console.log('5️⃣  Error once retries are exhausted...');
+    requests.length = 0;
+    failuresLeft = 10;
+    const giveUp = new HttpEmbeddingFunction({ api: 'ollama', baseUrl, maxRetries: 1, baseDelayMs: 1 });
+
+    await assert.rejects(giveUp.generate('zeta'), /503/);
+    assert.equal(requests.length, 2, 'one attempt plus one retry');
+    failuresLeft = 0;
+    console.log('✅ Failed with the server status\n');
+
+    console.log('🎉 All HTTP embedding tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+}
+
+// Run the test
+testHttpEmbeddings();
@@ -0,0 +1,107 @@
+#!/usr/bin/env tsx
+/**
+ * Test script for the ranking helpers
+ * Pure functions only, so no collection, server or API key is needed.
+ * Covers BM25 keyword scoring, reciprocal rank fusion, maximal marginal
+ * relevance and the priority/recency scorer.
+ *
+ * Run: npx tsx scripts/test-ranking.ts
+ */
+
+import assert from 'assert/strict';
+import { KeywordIndex, tokenize } from '../src/lib/keyword-index';
+import {
+  createScoringFunction,
+  maximalMarginalRelevance,
+  reciprocalRankFusion,
+  recencyDecay,
+} from '../src/lib/ranking';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+async function testRanking() {
+  console.log('🧪 Testing ranking helpers...\n');
+
+  try {
+    // 1. BM25
+    console.log('1️⃣  BM25 keyword index...');
+    assert.deepEqual(tokenize('searchByCategory(API_KEY)'), [
+      'searchbycategory', 'search', 'by', 'category', 'api_key', 'api', 'key',
+    ]);
+
+    const index = new KeywordIndex();
+    index.add('exact', 'Call searchByCategory to filter by category');
+    index.add('mention', 'Categories group documents; category filters are optional and category names are free text');
+    index.add('unrelated', 'Tailwind utility classes for buttons');
+
+    const matches = index.search('searchByCategory');
+    assert.equal(matches[0].id, 'exact', 'the whole identifier outranks its parts');
+    assert.ok(!matches.some(m => m.id === 'unrelated'), 'only documents with a query term match');
+    assert.deepEqual(index.search('nothing matches this'), []);
+
+    // Replacing a document drops its old terms
+    index.add('unrelated', 'searchByCategory in the button docs');
+    assert.ok(index.search('tailwind').length === 0);
+    assert.equal(index.size, 3);
+    index.remove('unrelated');
+    assert.equal(index.size, 2);
+    assert.ok(!index.search('button').some(m => m.id === 'unrelated'));
+    console.log('✅ Identifiers, replacements and removals\n');
+
+    // 2. Reciprocal rank fusion
+    console.log('2️⃣  Reciprocal rank fusion...');
+    const fused = reciprocalRankFusion([
+      ['a', 'b', 'c'],
+      ['a', 'c', 'd'],
+    ]);
+    assert.equal(fused.get('a'), 1, 'first in every list scores 1');
+    assert.ok(fused.get('c')! > fused.get('b')!, 'two listings beat one better listing');
+    assert.ok(fused.get('b')! > fused.get('d')!);
+    assert.equal(reciprocalRankFusion([]).size, 0);
+    console.log('✅ Rank-only fusion, normalized to 1\n');
+
+    // 3. Maximal marginal relevance
+    console.log('3️⃣  Maximal marginal relevance...');
+    const candidates = [
+      { id: 'chunk-1', score: 0.9, embedding: [1, 0, 0], group: 'auth.md' },
+      { id: 'chunk-2', score: 0.89, embedding: [0.99, 0.1, 0], group: 'auth.md' },
+      { id: 'other', score: 0.7, embedding: [0, 1, 0], group: 'session.md' },
+    ];
+    const byRelevance = maximalMarginalRelevance(candidates, 2);
+    assert.deepEqual(byRelevance.map(c => c.id), ['chunk-1', 'chunk-2']);
+
+    const diverse = maximalMarginalRelevance(candidates, 2, 0.5);
+    assert.deepEqual(diverse.map(c => c.id), ['chunk-1', 'other'], 'the near-duplicate chunk gives way');
+
+    const capped = maximalMarginalRelevance(candidates, 3, 0, 1);
+    assert.deepEqual(capped.map(c => c.id), ['chunk-1', 'other'], 'one per file, even below the limit');
+    console.log('✅ Near-duplicates and group caps\n');
+
+    // 4. Priority and recency scoring
+    console.log('4️⃣  Priority and recency scoring...');
+    const now = Date.now();
+    assert.equal(recencyDecay({ source: 'docs', lastModified: new Date(now).toISOString() }, 180, now), 1);
+    assert.equal(recencyDecay({ source: 'docs', lastModified: new Date(now - 180 * DAY).toISOString() }, 180, now), 0.5);
+    assert.equal(recencyDecay({ source: 'docs' }, 180, now), 0.5);
+
+    const score = createScoringFunction();
+    const base = { id: 'x', content: '', score: 0, similarity: 0.8 };
+    const important = score({ ...base, metadata: { source: 'docs', priority: 100 } });
+    const minor = score({ ...base, metadata: { source: 'docs', priority: 10 } });
+    assert.ok(important > minor);
+    assert.ok(important <= 1 && minor >= 0);
+
+    const similarityOnly = createScoringFunction({ similarityWeight: 1, priorityWeight: 0, recencyWeight: 0 });
+    assert.equal(similarityOnly({ ...base, metadata: { source: 'docs', priority: 100 } }), 0.8);
+    assert.throws(() => createScoringFunction({ similarityWeight: 0, priorityWeight: 0, recencyWeight: 0 }), /more than 0/);
+    console.log('✅ Weighted blend stays within 0-1\n');
+
+    console.log('🎉 All ranking tests passed!');
+  } catch (error) {
+    console.error('\n❌ Test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+// Run the test
+testRanking();
@@ -15,45 +15,171 @@
  * This approach saves ~90% tokens compared to traditional tool calling.
  */
 
+import type {
+  ContextOptions,
+  EmbeddingProvider,
+  FederatedQueryOptions,
+  QueryFilters,
+  VectorStoreBackendType,
+} from '../lib/types';
+import type { EmbeddingProviderOptions } from '../lib/embeddings';
+
 // Re-export the main client class and types
-export { ProjectVectorDB } from '../lib/client';
+export {
+  ProjectVectorDB,
+  createVectorStoreBackend,
+  EmbeddingCache,
+  AliasRegistry,
+  CollectionManager,
+  SnapshotCatalog,
+} from '../lib/client';
+export type { AliasEntry } from '../lib/aliases';
+export type { CopyCollectionOptions } from '../lib/collections';
+export type { EmbeddingCacheOptions, EmbeddingCacheStats } from '../lib/embedding-cache';
 export type {
   VectorDocument,
   DocumentMetadata,
   QueryResult,
   QueryOptions,
+  QueryFilters,
+  PageOptions,
+  DocumentPage,
+  FederatedQueryOptions,
+  FederatedQueryResult,
+  MetadataFilter,
+  FieldOperators,
+  FilterValue,
+  SearchMode,
+  ScoringOptions,
+  ScoringFunction,
   CollectionStats,
   BackupData,
+  BackupHeader,
+  BackupOptions,
+  BackupEncryption,
+  BackupEncryptionInfo,
+  SnapshotType,
+  SnapshotInfo,
+  SnapshotOptions,
+  RetentionPolicy,
   VectorDBConfig,
   EmbeddingFunction,
+  DocumentEmbeddingInput,
+  EmbeddingProvider,
+  EmbeddingModelInfo,
+  EmbeddingStatus,
+  ReindexOptions,
+  ReindexResult,
+  CollectionInfo,
+  EmbeddingProgressCallback,
+  WriteOptions,
+  RestoreOptions,
+  UpsertResult,
+  ReplaceFileResult,
+  FileDocument,
+  ChunkNeighbors,
+  ContextOptions,
+  ContextSection,
+  ContextResult,
+  VectorStore,
+  VectorStoreBackend,
+  VectorStoreBackendType,
 } from '../lib/types';
 
 // Re-export the embedding function for agents that need it
-export { GoogleAIEmbeddingFunction } from '../lib/embeddings';
+export {
+  GoogleAIEmbeddingFunction,
+  HashingEmbeddingFunction,
+  HttpEmbeddingFunction,
+  createEmbeddingFunction,
+  embedQuery,
+  embedDocuments,
+  registerEmbeddingProvider,
+  getEmbeddingProvider,
+  listEmbeddingProviders,
+  embedInBatches,
+} from '../lib/embeddings';
+export type {
+  EmbeddingProviderInfo,
+  EmbeddingProviderOptions,
+  HttpEmbeddingOptions,
+} from '../lib/embeddings';
 
 // Convenience function for quick initialization
 export async function createVectorDB(config?: {
+  backend?: VectorStoreBackendType;
   chromaUrl?: string;
+  localPath?: string;
   collectionName?: string;
-  apiKey?: string;
+  embeddingProvider?: EmbeddingProvider;
+  embeddingOptions?: EmbeddingProviderOptions; // Base URL, model, headers for openai/ollama
+  apiKey?: string; // Key for embeddingProvider (see EmbeddingProviderOptions.apiKey)
+  cacheDir?: string;
 }) {
-  const { GoogleAIEmbeddingFunction } = await import('../lib/embeddings');
+  const { createEmbeddingFunction } = await import('../lib/embeddings');
   const { ProjectVectorDB } = await import('../lib/client');
 
-  const embedder = new GoogleAIEmbeddingFunction(config?.apiKey);
+  const embedder = createEmbeddingFunction(config?.embeddingProvider, {
+    apiKey: config?.apiKey,
+    ...config?.embeddingOptions,
+  });
   const db = new ProjectVectorDB({
+    backend: config?.backend || 'chroma',
     chromaUrl: config?.chromaUrl || 'http://localhost:8000',
+    localPath: config?.localPath || './.vectordb',
     collectionName: config?.collectionName || 'project-docs',
     embeddingFunction: embedder,
+    embeddingCache: { dir: config?.cacheDir },
   });
 
   await db.initialize();
   return db;
 }
 
+// Search several project collections at once, e.g. searchProjects('auth', ['docs-*'])
+export async function searchProjects(
+  query: string,
+  collections: string[],
+  options?: FederatedQueryOptions,
+  config?: Parameters<typeof createVectorDB>[0]
+) {
+  const db = await createVectorDB(config);
+  return db.queryCollections(query, collections, options);
+}
+
+// Walk a collection a page at a time, e.g.
+// for await (const doc of iterateDocuments({ source: 'docs' })) { ... }
+export async function* iterateDocuments(
+  filters?: QueryFilters,
+  pageSize?: number,
+  config?: Parameters<typeof createVectorDB>[0]
+) {
+  const db = await createVectorDB(config);
+  yield* db.iterateDocuments(filters, pageSize);
+}
+
+// Context for a task within a token budget, e.g.
+// const { markdown } = await getContext('add a settings screen', { tokenBudget: 6000 })
+export async function getContext(
+  query: string,
+  options?: ContextOptions,
+  config?: Parameters<typeof createVectorDB>[0]
+) {
+  const db = await createVectorDB(config);
+  return db.getContext(query, options);
+}
+
+const defaultProvider = (process.env.EMBEDDING_PROVIDER as EmbeddingProvider) || 'google';
+
 // Export a default configuration for agents
 export const defaultConfig = {
+  backend: (process.env.VECTORDB_BACKEND as VectorStoreBackendType) || 'chroma',
   chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
+  localPath: process.env.VECTORDB_PATH || './.vectordb',
   collectionName: process.env.COLLECTION_NAME || 'project-docs',
-  apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+  embeddingProvider: defaultProvider,
+  // Only the Google key is picked here; HTTP providers read their own
+  // (EMBEDDING_API_KEY, OPENAI_API_KEY) so it never reaches another server
+  apiKey: defaultProvider === 'google' ? process.env.GOOGLE_GENERATIVE_AI_API_KEY : undefined,
+  cacheDir: process.env.VECTORDB_CACHE_DIR, // Default: per-user cache directory
 };
\ No newline at end of file
@@ -0,0 +1,161 @@
+/**
+ * Collection aliases
+ *
+ * An alias is a logical collection name (e.g. `project-docs`) pointing at
+ * a physical, versioned collection (e.g. `project-docs_v20250101120000`).
+ * Rebuilds fill a new version and flip the alias only when they succeed,
+ * so readers never see a half-built collection, and the previous version
+ * stays around for rollback.
+ *
+ * Aliases live in the metadata of a reserved collection, so they work the
+ * same on every backend.
+ */
+
+import type { StoredMetadata, VectorStoreBackend } from './types';
+
+export const ALIAS_COLLECTION = 'vectordb-aliases';
+
+const TARGET_PREFIX = 'alias:';
+const PREVIOUS_PREFIX = 'previous:';
+const VERSION_SEPARATOR = '_v';
+
+export interface AliasEntry {
+  alias: string;
+  target: string; // Physical collection queries go to
+  previous?: string; // Target before the last flip (rollback)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Physical collection name for a new version of an alias
+ */
+export function versionName(alias: string, date = new Date()): string {
+  const stamp = date.toISOString().replace(/\D/g, '').slice(0, 14);
+  return `${alias}${VERSION_SEPARATOR}${stamp}`;
+}
+
+/**
+ * Whether a physical collection is a version of an alias
+ */
+export function isVersionOf(name: string, alias: string): boolean {
+  const pattern = new RegExp(`^${escapeRegExp(alias)}${VERSION_SEPARATOR}\\d{14}(-\\d+)?$`);
+  return pattern.test(name);
+}
+
+export class AliasRegistry {
+  constructor(private backend: VectorStoreBackend) {}
+
+  /**
+   * Read the alias table fresh from the backend
+   */
+  private async read(): Promise<StoredMetadata> {
+    const store = await this.backend.openCollection(ALIAS_COLLECTION, {
+      description: 'Collection aliases (logical name -> physical collection)',
+    });
+    return store.getMetadata();
+  }
+
+  private async write(metadata: StoredMetadata): Promise<void> {
+    const store = await this.backend.openCollection(ALIAS_COLLECTION);
+    await store.updateMetadata(metadata);
+  }
+
+  private entry(metadata: StoredMetadata, alias: string): AliasEntry | undefined {
+    const target = metadata[`${TARGET_PREFIX}${alias}`];
+    if (typeof target !== 'string' || !target) return undefined;
+
+    const previous = metadata[`${PREVIOUS_PREFIX}${alias}`];
+    return {
+      alias,
+      target,
+      previous: typeof previous === 'string' && previous ? previous : undefined,
+    };
+  }
+
+  /**
+   * Look up an alias
+   */
+  async get(alias: string): Promise<AliasEntry | undefined> {
+    return this.entry(await this.read(), alias);
+  }
+
+  /**
+   * Physical collection for a name (the name itself if it isn't an alias)
+   */
+  async resolve(name: string): Promise<string> {
+    return (await this.get(name))?.target ?? name;
+  }
+
+  /**
+   * Point an alias at a collection, remembering the old target for rollback
+   * @param replacing - Recorded as previous when the alias is new (e.g. a
+   *   pre-alias collection with the alias's name)
+   */
+  async set(alias: string, target: string, replacing?: string): Promise<AliasEntry> {
+    const current = await this.get(alias);
+    const currentTarget = current?.target ?? replacing;
+    const previous = currentTarget && currentTarget !== target ? currentTarget : current?.previous;
+
+    await this.write({
+      [`${TARGET_PREFIX}${alias}`]: target,
+      [`${PREVIOUS_PREFIX}${alias}`]: previous ?? '',
+    });
+    return { alias, target, previous };
+  }
+
+  /**
+   * Swap an alias back to its previous target
+   */
+  async rollback(alias: string): Promise<AliasEntry> {
+    const current = await this.get(alias);
+    if (!current?.previous) {
+      throw new Error(`Alias ${alias} has no previous collection to roll back to`);
+    }
+
+    await this.write({
+      [`${TARGET_PREFIX}${alias}`]: current.previous,
+      [`${PREVIOUS_PREFIX}${alias}`]: current.target,
+    });
+    return { alias, target: current.previous, previous: current.target };
+  }
+
+  /**
+   * Every alias
+   */
+  async list(): Promise<AliasEntry[]> {
+    const metadata = await this.read();
+    return Object.keys(metadata)
+      .filter(key => key.startsWith(TARGET_PREFIX))
+      .map(key => this.entry(metadata, key.slice(TARGET_PREFIX.length)))
+      .filter((e): e is AliasEntry => !!e)
+      .sort((a, b) => a.alias.localeCompare(b.alias));
+  }
+
+  /**
+   * Follow a physical collection rename in every alias pointing at it
+   * (an empty `to` forgets the collection)
+   */
+  async retarget(from: string, to: string): Promise<void> {
+    const updates: StoredMetadata = {};
+    for (const entry of await this.list()) {
+      if (entry.target === from) updates[`${TARGET_PREFIX}${entry.alias}`] = to;
+      if (entry.previous === from) updates[`${PREVIOUS_PREFIX}${entry.alias}`] = to;
+    }
+    if (Object.keys(updates).length > 0) {
+      await this.write(updates);
+    }
+  }
+
+  /**
+   * Remove an alias (its collections are left alone)
+   */
+  async remove(alias: string): Promise<void> {
+    await this.write({
+      [`${TARGET_PREFIX}${alias}`]: '',
+      [`${PREVIOUS_PREFIX}${alias}`]: '',
+    });
+  }
+}
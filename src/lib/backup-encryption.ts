@@ -0,0 +1,247 @@
+/**
+ * Backup encryption
+ *
+ * An encrypted backup is a plaintext JSON line recording the cipher
+ * parameters (never the key), then the AES-256-GCM ciphertext of an
+ * ordinary backup file, then the 16-byte authentication tag. The key is
+ * derived from a passphrase (scrypt) or a key file (HKDF-SHA256). A key
+ * check value derived alongside it tells a wrong key apart from a
+ * modified file. The envelope line is authenticated data of the cipher,
+ * so its parameters can't be altered either, and the whole file is
+ * authenticated before any of it is parsed.
+ */
+
+import * as fs from 'fs';
+import crypto from 'crypto';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { BackupEncryption, BackupEncryptionInfo } from './types';
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const CHECK_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const MIN_KEY_FILE_LENGTH = 32;
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+// Upper bounds for parameters read from a file (up to 1 GiB and a few seconds per derivation)
+const MAX_SCRYPT_PARAMS = { N: 2 ** 20, r: 8, p: 4 };
+const HKDF_INFO = 'vectordb-backup';
+
+// Longest plaintext first line looked at when sniffing for encryption
+const MAX_ENVELOPE_LENGTH = 4096;
+
+export interface BackupEnvelope {
+  info: BackupEncryptionInfo;
+  line: Buffer; // The envelope as written, authenticated with the ciphertext
+  bodyStart: number; // Byte offset of the ciphertext
+}
+
+export interface BackupEncryptor {
+  info: BackupEncryptionInfo;
+  envelope: string; // First line of the file
+  cipher: crypto.CipherGCM;
+}
+
+function readKeyFile(keyFile: string): Buffer {
+  if (!fs.existsSync(keyFile)) {
+    throw new Error(`Key file not found: ${keyFile}`);
+  }
+  const key = fs.readFileSync(keyFile);
+  if (key.length < MIN_KEY_FILE_LENGTH) {
+    throw new Error(
+      `Key file ${keyFile} is too short (at least ${MIN_KEY_FILE_LENGTH} bytes, e.g. from \`openssl rand -out backup.key 32\`)`
+    );
+  }
+  return key;
+}
+
+/**
+ * Check scrypt parameters from a backup before deriving with them, so a
+ * crafted file can't make us allocate gigabytes or spin for minutes
+ */
+function checkScryptParams(params: { N: number; r: number; p: number }): void {
+  const { N, r, p } = params;
+  const valid = [N, r, p].every(v => Number.isInteger(v) && v > 0) &&
+    N > 1 && (N & (N - 1)) === 0 &&
+    N <= MAX_SCRYPT_PARAMS.N && r <= MAX_SCRYPT_PARAMS.r && p <= MAX_SCRYPT_PARAMS.p;
+
+  if (!valid) {
+    throw new Error(
+      `Unsupported backup key derivation parameters N=${N}, r=${r}, p=${p} ` +
+      `(N must be a power of two up to ${MAX_SCRYPT_PARAMS.N}, r at most ${MAX_SCRYPT_PARAMS.r}, p at most ${MAX_SCRYPT_PARAMS.p})`
+    );
+  }
+}
+
+/**
+ * Derive the cipher key and key check value for a backup
+ */
+function deriveKeys(
+  encryption: BackupEncryption,
+  info: Pick<BackupEncryptionInfo, 'kdf' | 'salt' | 'scrypt'>
+): { key: Buffer; check: Buffer } {
+  const salt = Buffer.from(info.salt, 'base64');
+  const length = KEY_LENGTH + CHECK_LENGTH;
+  let material: Buffer;
+
+  if (info.kdf === 'scrypt') {
+    if (!encryption.passphrase) {
+      throw new Error('Backup is encrypted with a passphrase; provide the passphrase to read it');
+    }
+    const { N, r, p } = info.scrypt ?? SCRYPT_PARAMS;
+    checkScryptParams({ N, r, p });
+    material = crypto.scryptSync(encryption.passphrase, salt, length, { N, r, p, maxmem: 256 * N * r });
+  } else if (info.kdf === 'hkdf-sha256') {
+    if (!encryption.keyFile) {
+      throw new Error('Backup is encrypted with a key file; provide the key file to read it');
+    }
+    material = Buffer.from(crypto.hkdfSync('sha256', readKeyFile(encryption.keyFile), salt, HKDF_INFO, length));
+  } else {
+    throw new Error(`Unsupported backup key derivation "${info.kdf}"`);
+  }
+
+  return { key: material.subarray(0, KEY_LENGTH), check: material.subarray(KEY_LENGTH) };
+}
+
+/**
+ * Start encrypting a backup
+ * @param compressed - Whether the plaintext is gzipped (recorded for the reader)
+ */
+export function createEncryptor(encryption: BackupEncryption, compressed: boolean): BackupEncryptor {
+  if (encryption.passphrase && encryption.keyFile) {
+    throw new Error('Encrypt a backup with a passphrase or a key file, not both');
+  }
+  if (!encryption.passphrase && !encryption.keyFile) {
+    throw new Error('Backup encryption needs a passphrase or a key file');
+  }
+
+  const params = encryption.passphrase
+    ? { kdf: 'scrypt' as const, scrypt: { ...SCRYPT_PARAMS } }
+    : { kdf: 'hkdf-sha256' as const };
+  const salt = crypto.randomBytes(16).toString('base64');
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const { key, check } = deriveKeys(encryption, { ...params, salt });
+
+  const info: BackupEncryptionInfo = {
+    cipher: CIPHER,
+    ...params,
+    salt,
+    iv: iv.toString('base64'),
+    keyCheck: check.toString('base64'),
+    compressed,
+  };
+
+  const envelope = JSON.stringify({ format: 'vectordb-backup', encryption: info });
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(envelope));
+
+  return { info, envelope: envelope + '\n', cipher };
+}
+
+/**
+ * Key from VECTORDB_BACKUP_PASSPHRASE / VECTORDB_BACKUP_KEY_FILE, if set
+ * Both may be set: a backup is decrypted with whichever it was written with.
+ */
+export function backupKeyFromEnv(): BackupEncryption | undefined {
+  const passphrase = process.env.VECTORDB_BACKUP_PASSPHRASE || undefined;
+  const keyFile = process.env.VECTORDB_BACKUP_KEY_FILE || undefined;
+  return passphrase || keyFile ? { passphrase, keyFile } : undefined;
+}
+
+/**
+ * Key to encrypt with from the environment; the key file wins if both are set
+ */
+export function encryptionKeyFromEnv(): BackupEncryption | undefined {
+  const key = backupKeyFromEnv();
+  return key?.keyFile ? { keyFile: key.keyFile } : key;
+}
+
+/**
+ * The encryption parameters of a backup file, if it is encrypted
+ */
+export function readEnvelope(filePath: string): BackupEnvelope | undefined {
+  const fd = fs.openSync(filePath, 'r');
+  let start: Buffer;
+  try {
+    const buffer = Buffer.alloc(MAX_ENVELOPE_LENGTH);
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    start = buffer.subarray(0, bytesRead);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const newline = start.indexOf('\n');
+  if (start[0] !== '{'.charCodeAt(0) || newline === -1) return undefined;
+
+  const line = start.subarray(0, newline);
+  let raw: any;
+  try {
+    raw = JSON.parse(line.toString('utf8'));
+  } catch {
+    return undefined;
+  }
+  if (!raw?.encryption) return undefined;
+
+  if (raw.encryption.cipher !== CIPHER) {
+    throw new Error(`Unsupported backup cipher "${raw.encryption.cipher}"`);
+  }
+  return { info: raw.encryption, line, bodyStart: newline + 1 };
+}
+
+/**
+ * Decrypt an encrypted backup
+ * The file is authenticated in a first pass, so nothing is returned from
+ * a file encrypted with another key or modified since it was written.
+ * @returns Plaintext of the backup (still gzipped if `info.compressed`)
+ * @throws On a missing or wrong key, or if the file fails authentication
+ */
+export async function openDecrypted(
+  filePath: string,
+  envelope: BackupEnvelope,
+  encryption: BackupEncryption = {}
+): Promise<Readable> {
+  const { info, line, bodyStart } = envelope;
+  const { key, check } = deriveKeys(encryption, info);
+
+  const expected = Buffer.from(info.keyCheck, 'base64');
+  if (expected.length !== check.length || !crypto.timingSafeEqual(expected, check)) {
+    const secret = info.kdf === 'scrypt' ? 'passphrase' : 'key file';
+    throw new Error(`Could not decrypt backup: wrong ${secret}`);
+  }
+
+  const size = fs.statSync(filePath).size;
+  const bodyEnd = size - TAG_LENGTH;
+  if (bodyEnd <= bodyStart) {
+    throw new Error('Could not decrypt backup: the file is truncated');
+  }
+
+  const tag = Buffer.alloc(TAG_LENGTH);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    fs.readSync(fd, tag, 0, TAG_LENGTH, bodyEnd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const decipher = () => {
+    const stream = crypto.createDecipheriv(CIPHER, key, Buffer.from(info.iv, 'base64'));
+    stream.setAAD(line);
+    stream.setAuthTag(tag);
+    return stream;
+  };
+  // createReadStream's end is inclusive
+  const ciphertext = () => fs.createReadStream(filePath, { start: bodyStart, end: bodyEnd - 1 });
+
+  try {
+    await pipeline(ciphertext(), decipher(), new Writable({ write: (_chunk, _encoding, done) => done() }));
+  } catch {
+    throw new Error('Could not decrypt backup: authentication failed (the file is corrupt or was modified)');
+  }
+
+  const file = ciphertext();
+  const plaintext = file.pipe(decipher());
+  // pipe() doesn't forward errors from the file to the decipher stream
+  file.on('error', error => plaintext.destroy(error));
+  return plaintext;
+}
@@ -0,0 +1,354 @@
+/**
+ * Backup file format
+ *
+ * A backup is JSONL: a header line, then one document per line. Format 2.0
+ * is written and read as a stream, so collections larger than memory can
+ * be backed up. It can carry embeddings (Float32, base64) so restoring
+ * with the same model skips re-embedding, and may be gzipped (detected on
+ * read from the file's magic bytes). The header records the document
+ * count and a sha256 of the document lines, which restores verify.
+ * Incremental snapshots end with deletion records (`{ id, deleted: true }`).
+ * Backups can be encrypted as a whole (see backup-encryption.ts).
+ * Format 1.0 files (no embeddings, count or checksum) are still readable.
+ */
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import crypto from 'crypto';
+import { StringDecoder } from 'string_decoder';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type {
+  BackupEncryption,
+  BackupHeader,
+  EmbeddingModelInfo,
+  SnapshotInfo,
+  VectorDocument,
+} from './types';
+import { createEncryptor, openDecrypted, readEnvelope } from './backup-encryption';
+
+export const BACKUP_FORMAT = 'vectordb-backup';
+export const BACKUP_VERSION = '2.0';
+const SUPPORTED_VERSIONS = ['1.0', BACKUP_VERSION];
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export interface BackupWriteOptions {
+  collection?: string;
+  embedding?: EmbeddingModelInfo; // Model of the embeddings being written
+  includeEmbeddings: boolean;
+  gzip: boolean;
+  encryption?: BackupEncryption;
+  snapshot?: SnapshotInfo;
+  deletions?: () => Iterable<string>; // IDs to record as deleted, read after the documents
+}
+
+export interface BackupReader {
+  header: BackupHeader;
+  /** Documents in file order; throws at the end if the count or checksum is wrong */
+  documents: AsyncGenerator<VectorDocument>;
+  /** IDs recorded as deleted, complete once `documents` is exhausted */
+  deletedIds: string[];
+}
+
+/**
+ * Encode a vector as base64 little-endian Float32
+ */
+export function encodeEmbedding(embedding: number[]): string {
+  const floats = new Float32Array(embedding);
+  return Buffer.from(floats.buffer).toString('base64');
+}
+
+export function decodeEmbedding(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, 'base64');
+  // Copy into a fresh (aligned) ArrayBuffer before viewing as floats
+  return Array.from(new Float32Array(new Uint8Array(bytes).buffer));
+}
+
+/**
+ * Stream documents into a 2.0 backup file
+ * Documents go to a temporary body file first so the header can carry
+ * their count and checksum; the result is renamed into place at the end.
+ */
+export async function writeBackup(
+  outputPath: string,
+  documents: AsyncIterable<VectorDocument>,
+  options: BackupWriteOptions
+): Promise<BackupHeader> {
+  const bodyPath = `${outputPath}.body.tmp`;
+  const tempPath = `${outputPath}.tmp`;
+  const hash = crypto.createHash('sha256');
+  let documentCount = 0;
+  let deletedCount = 0;
+  let dimensions = options.embedding?.dimensions;
+  let hasEmbeddings = false;
+
+  try {
+    await pipeline(
+      async function* () {
+        for await (const doc of documents) {
+          const record: Record<string, unknown> = {
+            id: doc.id,
+            content: doc.content,
+            metadata: doc.metadata,
+          };
+          if (options.includeEmbeddings && doc.embedding) {
+            record.embedding = encodeEmbedding(doc.embedding);
+            dimensions ??= doc.embedding.length;
+            hasEmbeddings = true;
+          }
+
+          const line = JSON.stringify(record) + '\n';
+          hash.update(line);
+          documentCount++;
+          yield line;
+        }
+
+        for (const id of options.deletions?.() ?? []) {
+          const line = JSON.stringify({ id, deleted: true }) + '\n';
+          hash.update(line);
+          deletedCount++;
+          yield line;
+        }
+      },
+      fs.createWriteStream(bodyPath)
+    );
+
+    const header: BackupHeader = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportDate: new Date().toISOString(),
+      collection: options.collection,
+      embedding: hasEmbeddings ? { ...options.embedding, dimensions } : undefined,
+      embeddingEncoding: hasEmbeddings ? 'float32-base64' : undefined,
+      documentCount,
+      deletedCount: options.deletions ? deletedCount : undefined,
+      checksum: hash.digest('hex'),
+      snapshot: options.snapshot,
+    };
+
+    const source = async function* () {
+      yield JSON.stringify(header) + '\n';
+      yield* fs.createReadStream(bodyPath);
+    };
+
+    // Compression has to come first: ciphertext doesn't compress
+    const encryptor = options.encryption ? createEncryptor(options.encryption, options.gzip) : undefined;
+    const transforms: NodeJS.ReadWriteStream[] = [];
+    if (options.gzip) transforms.push(zlib.createGzip());
+    if (encryptor) {
+      transforms.push(encryptor.cipher);
+      fs.writeFileSync(tempPath, encryptor.envelope);
+    }
+
+    await pipeline([
+      Readable.from(source()),
+      ...transforms,
+      fs.createWriteStream(tempPath, { flags: encryptor ? 'a' : 'w' }),
+    ]);
+    if (encryptor) {
+      fs.appendFileSync(tempPath, encryptor.cipher.getAuthTag());
+    }
+
+    fs.renameSync(tempPath, outputPath);
+    return encryptor ? { ...header, encryption: encryptor.info } : header;
+  } finally {
+    fs.rmSync(bodyPath, { force: true });
+    fs.rmSync(tempPath, { force: true });
+  }
+}
+
+function isGzipped(filePath: string): boolean {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const magic = Buffer.alloc(2);
+    const bytesRead = fs.readSync(fd, magic, 0, 2, 0);
+    return bytesRead === 2 && magic[0] === GZIP_MAGIC[0] && magic[1] === GZIP_MAGIC[1];
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Gunzip a stream if it is compressed
+ */
+function decompress(source: Readable, gzipped: boolean): Readable {
+  if (!gzipped) return source;
+  const stream = source.pipe(zlib.createGunzip());
+  // pipe() doesn't forward errors from the source to the gunzip stream
+  source.on('error', error => stream.destroy(error));
+  return stream;
+}
+
+/**
+ * Lines of a plaintext backup stream, newline included
+ */
+async function* readLines(stream: Readable, filePath: string): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let buffered = '';
+
+  try {
+    for await (const chunk of stream) {
+      buffered += decoder.write(chunk);
+      let newline: number;
+      while ((newline = buffered.indexOf('\n')) !== -1) {
+        yield buffered.slice(0, newline + 1);
+        buffered = buffered.slice(newline + 1);
+      }
+    }
+  } catch (error) {
+    // e.g. a truncated gzip file
+    throw new Error(`Invalid backup: could not read ${filePath} (${error instanceof Error ? error.message : error})`);
+  }
+
+  buffered += decoder.end();
+  if (buffered) yield buffered;
+}
+
+function parseHeader(line: string | undefined): BackupHeader {
+  if (!line?.trim()) {
+    throw new Error('Backup file is empty');
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(line);
+  } catch {
+    throw new Error('Invalid backup: the first line is not a JSON header');
+  }
+
+  const version = String(raw.version ?? '');
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    throw new Error(
+      `Unsupported backup version "${version}" (this build reads ${SUPPORTED_VERSIONS.join(' and ')})`
+    );
+  }
+
+  // 1.0 headers only had version, exportDate and stats
+  if (version === '1.0') {
+    return {
+      format: BACKUP_FORMAT,
+      version,
+      exportDate: raw.exportDate,
+      documentCount: raw.stats?.totalDocuments,
+    };
+  }
+
+  if (raw.format !== BACKUP_FORMAT || typeof raw.documentCount !== 'number' || !raw.checksum) {
+    throw new Error('Invalid backup: header is missing the format, document count or checksum');
+  }
+  return raw as BackupHeader;
+}
+
+/**
+ * Parse a document line, or a deletion record ({ id, deleted: true })
+ */
+function parseLine(
+  line: string,
+  lineNumber: number,
+  header: BackupHeader
+): VectorDocument | { id: string; deleted: true } {
+  let raw: any;
+  try {
+    raw = JSON.parse(line);
+  } catch {
+    throw new Error(`Invalid backup: line ${lineNumber} is not valid JSON`);
+  }
+
+  if (raw.deleted === true && typeof raw.id === 'string') {
+    return { id: raw.id, deleted: true };
+  }
+
+  if (typeof raw.id !== 'string' || typeof raw.content !== 'string' ||
+      typeof raw.metadata !== 'object' || raw.metadata === null) {
+    throw new Error(`Invalid backup: line ${lineNumber} needs an id, content and metadata`);
+  }
+
+  const doc: VectorDocument = { id: raw.id, content: raw.content, metadata: raw.metadata };
+
+  if (typeof raw.embedding === 'string') {
+    doc.embedding = decodeEmbedding(raw.embedding);
+    const expected = header.embedding?.dimensions;
+    if (expected && doc.embedding.length !== expected) {
+      throw new Error(
+        `Invalid backup: line ${lineNumber} has a ${doc.embedding.length}-dimension embedding, expected ${expected}`
+      );
+    }
+  }
+
+  return doc;
+}
+
+/**
+ * Open a backup for streaming
+ * @param encryption - Key, if the backup is encrypted
+ * @throws If the file is missing, can't be decrypted, or the header is
+ *   invalid or unsupported
+ */
+export async function openBackup(inputPath: string, encryption?: BackupEncryption): Promise<BackupReader> {
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`Backup file not found: ${inputPath}`);
+  }
+
+  const gzipped = isGzipped(inputPath);
+  const envelope = gzipped ? undefined : readEnvelope(inputPath);
+  const stream = envelope
+    ? decompress(await openDecrypted(inputPath, envelope, encryption), envelope.info.compressed)
+    : decompress(fs.createReadStream(inputPath), gzipped);
+
+  const lines = readLines(stream, inputPath);
+  const first = await lines.next();
+  const header = parseHeader(first.done ? undefined : first.value);
+  if (envelope) header.encryption = envelope.info;
+
+  const deletedIds: string[] = [];
+
+  async function* documents(): AsyncGenerator<VectorDocument> {
+    const hash = crypto.createHash('sha256');
+    let count = 0;
+    let lineNumber = 1;
+
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      // The checksum covers each line as written, newline included
+      hash.update(line.endsWith('\n') ? line : `${line}\n`);
+
+      const entry = parseLine(line, lineNumber, header);
+      if ('deleted' in entry) {
+        deletedIds.push(entry.id);
+        continue;
+      }
+
+      count++;
+      yield entry;
+    }
+
+    if (header.version === '1.0') return;
+
+    if (count !== header.documentCount) {
+      throw new Error(`Invalid backup: expected ${header.documentCount} documents, found ${count}`);
+    }
+    if (deletedIds.length !== (header.deletedCount ?? 0)) {
+      throw new Error(`Invalid backup: expected ${header.deletedCount ?? 0} deletions, found ${deletedIds.length}`);
+    }
+    if (hash.digest('hex') !== header.checksum) {
+      throw new Error('Invalid backup: checksum mismatch (the file is corrupt or was modified)');
+    }
+  }
+
+  return { header, documents: documents(), deletedIds };
+}
+
+/**
+ * Read a whole backup without importing it
+ * @returns The header, once every line parsed and the count and checksum matched
+ */
+export async function verifyBackup(inputPath: string, encryption?: BackupEncryption): Promise<BackupHeader> {
+  const { header, documents } = await openBackup(inputPath, encryption);
+  for await (const _ of documents) {
+    // Parsing each document is the validation
+  }
+  return header;
+}
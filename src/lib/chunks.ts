@@ -0,0 +1,59 @@
+/**
+ * Chunk stitching
+ *
+ * Ingestion splits files into overlapping chunks (chunkIndex/totalChunks
+ * in metadata). Stitching puts consecutive chunks back together, dropping
+ * the text each chunk repeats from the end of the one before it.
+ */
+
+import type { VectorDocument } from './types';
+
+// Shorter matches between the end of a chunk and the start of the next
+// are treated as coincidence rather than overlap
+const MIN_OVERLAP = 16;
+
+// Separator where chunks are missing between two that are present
+const GAP = '\n\n…\n\n';
+
+/**
+ * Length of the longest suffix of `previous` that starts `next`
+ */
+function overlapLength(previous: string, next: string): number {
+  for (let length = Math.min(previous.length, next.length); length >= MIN_OVERLAP; length--) {
+    if (previous.endsWith(next.slice(0, length))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Chunks of one file in reading order (by chunkIndex)
+ */
+export function sortChunks(chunks: VectorDocument[]): VectorDocument[] {
+  return [...chunks].sort((a, b) =>
+    (Number(a.metadata.chunkIndex) || 0) - (Number(b.metadata.chunkIndex) || 0)
+  );
+}
+
+/**
+ * Join chunks of one file, given in reading order, removing overlaps
+ */
+export function stitchChunks(chunks: VectorDocument[]): string {
+  let text = '';
+  let previous: VectorDocument | undefined;
+
+  for (const chunk of chunks) {
+    const index = Number(chunk.metadata.chunkIndex);
+    const previousIndex = Number(previous?.metadata.chunkIndex);
+
+    if (!previous) {
+      text = chunk.content;
+    } else if (!Number.isNaN(index) && !Number.isNaN(previousIndex) && index !== previousIndex + 1) {
+      text += GAP + chunk.content;
+    } else {
+      text += chunk.content.slice(overlapLength(previous.content, chunk.content));
+    }
+    previous = chunk;
+  }
+
+  return text;
+}
@@ -1,7 +1,8 @@
 /**
  * TypeScript API Library for Vector Database
  *
- * This library provides a shared interface for accessing ChromaDB that can be used:
+ * This library provides a shared interface for accessing the vector store
+ * (ChromaDB or the embedded local backend) that can be used:
  * 1. By MCP servers (for agent queries) - uses tokens
  * 2. By TypeScript code directly (build scripts, CLI) - zero tokens
  *
@@ -9,59 +10,177 @@
  * programmatic access without AI tool calls.
  */
 
-import { ChromaClient, Collection } from 'chromadb';
 import * as fs from 'fs';
 import * as path from 'path';
+import crypto from 'crypto';
 import type {
   VectorDocument,
   DocumentMetadata,
   QueryResult,
   QueryOptions,
   CollectionStats,
-  BackupData,
+  ChunkSizeBucket,
+  BackupHeader,
+  BackupOptions,
+  SnapshotInfo,
+  SnapshotOptions,
+  SnapshotType,
   VectorDBConfig,
   EmbeddingFunction,
+  StoredMetadata,
+  StoredRecord,
+  VectorStore,
+  VectorStoreBackend,
+  ScoringFunction,
+  QueryFilters,
+  PageOptions,
+  DocumentPage,
+  WriteOptions,
+  RestoreOptions,
+  UpsertResult,
+  ReplaceFileResult,
+  FileDocument,
+  ChunkNeighbors,
+  ContextOptions,
+  ContextSection,
+  ContextResult,
+  EmbeddingProgressCallback,
+  EmbeddingModelInfo,
+  EmbeddingStatus,
+  ReindexOptions,
+  ReindexResult,
+  FederatedQueryOptions,
+  FederatedQueryResult,
 } from './types';
+import { createVectorStoreBackend } from './stores';
+import { embedDocuments, embedQuery } from './embeddings';
+import { EmbeddingCache } from './embedding-cache';
+import { openBackup, verifyBackup, writeBackup } from './backup';
+import { SnapshotCatalog, documentHash } from './snapshots';
+import { AliasRegistry, isVersionOf, versionName, type AliasEntry } from './aliases';
+import { CollectionManager } from './collections';
+import { KeywordIndex } from './keyword-index';
+import { sortChunks, stitchChunks } from './chunks';
+import { baseTokens, buildSection, estimateTokens, formatContext, mergeSpans, type ContextSpan } from './context';
+import {
+  reciprocalRankFusion,
+  maximalMarginalRelevance,
+  createScoringFunction,
+} from './ranking';
+import {
+  compileFilter,
+  toFilterExpression,
+  tagKey,
+  TAG_KEY_PREFIX,
+  TIMESTAMP_FIELDS,
+  TIMESTAMP_SUFFIX,
+  type CompiledFilter,
+} from './filters';
 
 // Re-export types for convenience
 export * from './types';
+export { createVectorStoreBackend } from './stores';
+export { EmbeddingCache, defaultEmbeddingCacheDir } from './embedding-cache';
+export { AliasRegistry, type AliasEntry } from './aliases';
+export { CollectionManager, type CopyCollectionOptions } from './collections';
+export { SnapshotCatalog } from './snapshots';
+
+// Hybrid mode fetches this many times `limit` from each ranker before fusing
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+
+// Scoring and reranking pick from this many times `limit` candidates
+const RERANK_CANDIDATE_MULTIPLIER = 4;
+
+// Reindexing builds the new collection under this suffix before swapping it in
+const REINDEX_SUFFIX = '-reindex';
+
+// How often a long-lived client re-checks which collection its alias points at
+const ALIAS_REFRESH_MS = 5000;
+
+// Lower bounds (in characters) of the getStats chunk size histogram buckets
+const CHUNK_SIZE_BUCKETS = [0, 250, 500, 1000, 2000, 4000];
+
+// Defaults for getContext
+const DEFAULT_TOKEN_BUDGET = 4000;
+const DEFAULT_CONTEXT_CANDIDATES = 20;
+
+// Metadata key holding a hash of a document's content and metadata (see upsertDocuments)
+const CONTENT_HASH_KEY = 'contentHash';
+
+function contentHash(content: string, metadata: StoredMetadata): string {
+  const fields = Object.keys(metadata)
+    .filter(key => key !== CONTENT_HASH_KEY)
+    .sort()
+    .map(key => [key, metadata[key]]);
+  return crypto.createHash('sha256').update(JSON.stringify([content, fields])).digest('hex');
+}
+
+// Page cursors are opaque to callers; inside they hold the next offset
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid page cursor: ${cursor}`);
+}
 
 /**
  * Main vector database client for project documentation
- * Wraps ChromaDB with project-specific functions
+ * Wraps a VectorStore backend with project-specific functions
  */
 export class ProjectVectorDB {
-  private client: ChromaClient;
-  private collection: Collection | null = null;
-  private collectionName: string;
+  private config: VectorDBConfig;
+  private backend: VectorStoreBackend;
+  private aliases: AliasRegistry;
+  private store: VectorStore | null = null;
+  private collectionName: string; // Logical name (alias or plain collection)
+  private physicalName: string; // Collection it currently resolves to
+  private aliasCheckedAt = 0;
+  private keepVersions: number;
   private embeddingFunction?: EmbeddingFunction;
+  private embeddingConcurrency?: number;
+  private embeddingCache: EmbeddingCache | null;
+  private keywordIndex: KeywordIndex | null = null;
+  private keywordIndexWrite: unknown; // lastUpdated of the collection the index reflects
+  private collectionModel: EmbeddingModelInfo = {};
+  private embeddingMismatch: string | null = null;
+  private federatedClients = new Map<string, ProjectVectorDB>(); // Other collections, by name
   private isInitialized = false;
 
   constructor(config: VectorDBConfig = {}) {
     const {
-      chromaUrl = 'http://localhost:8000',
       collectionName = 'project-docs',
       embeddingFunction,
+      embeddingConcurrency,
+      embeddingCache = false,
+      keepVersions = 2,
     } = config;
 
-    // Parse the URL to get host and port
-    const url = new URL(chromaUrl);
-    this.client = new ChromaClient({
-      host: url.hostname,
-      port: parseInt(url.port) || 8000,
-      ssl: url.protocol === 'https:'
-    });
+    this.config = config;
+    this.backend = createVectorStoreBackend(config);
+    this.aliases = new AliasRegistry(this.backend);
     this.collectionName = collectionName;
+    this.physicalName = collectionName;
+    this.keepVersions = Math.max(1, keepVersions);
     this.embeddingFunction = embeddingFunction;
+    this.embeddingConcurrency = embeddingConcurrency;
+    this.embeddingCache = embeddingCache === false ? null : new EmbeddingCache(embeddingCache);
   }
 
   /**
-   * Sanitize metadata for ChromaDB
-   * ChromaDB only accepts string, number, boolean values
-   * Convert arrays to comma-separated strings
+   * Sanitize metadata for the vector store
+   * Stores only accept string, number, boolean values
+   * Convert arrays to comma-separated strings, and add filterable
+   * timestamp and per-tag keys
    */
-  private sanitizeMetadata(metadata: DocumentMetadata): any {
-    const sanitized: any = {};
+  private sanitizeMetadata(metadata: DocumentMetadata): StoredMetadata {
+    const sanitized: StoredMetadata = {};
     for (const [key, value] of Object.entries(metadata)) {
       if (value === null || value === undefined) {
         // Skip null/undefined values
@@ -75,435 +194,1711 @@ export class ProjectVectorDB {
       } else if (typeof value === 'object') {
         // Skip complex objects
         continue;
-      } else {
-        // Keep strings, numbers, booleans
-        sanitized[key] = value;
+      } else {
+        // Keep strings, numbers, booleans
+        sanitized[key] = value;
+      }
+    }
+
+    for (const field of TIMESTAMP_FIELDS) {
+      if (sanitized[field] === undefined) continue;
+      const timestamp = new Date(sanitized[field] as string | number).getTime();
+      if (!Number.isNaN(timestamp)) {
+        sanitized[`${field}${TIMESTAMP_SUFFIX}`] = timestamp;
+      }
+    }
+
+    // Tags may arrive as an array or an already comma-joined string
+    const tags = Array.isArray(metadata.tags)
+      ? metadata.tags
+      : typeof metadata.tags === 'string' ? (metadata.tags as string).split(',') : [];
+    for (const tag of tags) {
+      if (tag.trim()) sanitized[tagKey(tag)] = true;
+    }
+
+    return sanitized;
+  }
+
+  /**
+   * Reverse sanitizeMetadata: drop the filter-only keys and split tags
+   */
+  private restoreMetadata(stored: StoredMetadata): DocumentMetadata {
+    const metadata: Record<string, any> = {};
+    const derivedKeys = new Set([
+      ...TIMESTAMP_FIELDS.map(f => `${f}${TIMESTAMP_SUFFIX}`),
+      CONTENT_HASH_KEY,
+    ]);
+
+    for (const [key, value] of Object.entries(stored)) {
+      if (key.startsWith(TAG_KEY_PREFIX) || derivedKeys.has(key)) continue;
+      metadata[key] = value;
+    }
+
+    if (typeof metadata.tags === 'string') {
+      metadata.tags = metadata.tags.split(',').filter(Boolean);
+    }
+
+    return metadata as DocumentMetadata;
+  }
+
+  /**
+   * Convert a document to a stored record, stamped with its content hash
+   */
+  private toStoredRecord(doc: VectorDocument): StoredRecord {
+    const metadata = this.sanitizeMetadata(doc.metadata);
+    metadata[CONTENT_HASH_KEY] = contentHash(doc.content, metadata);
+    return { id: doc.id, content: doc.content, embedding: doc.embedding, metadata };
+  }
+
+  /**
+   * Convert a stored record back to a document
+   */
+  private toVectorDocument(record: StoredRecord): VectorDocument {
+    return {
+      id: record.id,
+      content: record.content,
+      metadata: this.restoreMetadata(record.metadata),
+      embedding: record.embedding,
+    };
+  }
+
+  /**
+   * Open (or create) the configured collection on the backend
+   * and check it against the configured embedding model
+   */
+  private async openCollection(): Promise<VectorStore> {
+    const store = await this.backend.openCollection(this.physicalName, {
+      description: 'Project documentation for Claude Code agents',
+      created: new Date().toISOString(),
+    });
+    await this.checkEmbeddingModel(store);
+    return store;
+  }
+
+  private describeModel(info: EmbeddingModelInfo): string {
+    const name = info.model || info.provider || 'an unknown embedding model';
+    return info.dimensions ? `${name} (${info.dimensions} dimensions)` : name;
+  }
+
+  /**
+   * Compare the embedding model recorded on the collection with the
+   * configured one. Empty collections are stamped with the configured
+   * model; collections from before stamping are checked by vector length.
+   * A mismatch doesn't fail here so the collection can still be
+   * inspected, backed up or cleared; queries and writes refuse instead.
+   */
+  private async checkEmbeddingModel(store: VectorStore): Promise<void> {
+    const metadata = await store.getMetadata();
+    const recorded: EmbeddingModelInfo = {
+      provider: metadata.embeddingProvider as string | undefined,
+      model: metadata.embeddingModel as string | undefined,
+      dimensions: metadata.embeddingDimensions as number | undefined,
+    };
+
+    if (!recorded.model && !recorded.dimensions) {
+      const [sample] = await store.get({ limit: 1, includeEmbeddings: true });
+      recorded.dimensions = sample?.embedding?.length;
+    }
+
+    this.collectionModel = recorded;
+    this.embeddingMismatch = null;
+    if (!this.embeddingFunction) return;
+
+    const configured: EmbeddingModelInfo = {
+      provider: this.embeddingFunction.provider,
+      model: this.embeddingFunction.modelId,
+      dimensions: this.embeddingFunction.dimensions,
+    };
+
+    // Nothing recorded and nothing stored yet: this model builds the collection
+    if (!recorded.model && !recorded.dimensions) {
+      const stamp: StoredMetadata = {};
+      if (configured.provider) stamp.embeddingProvider = configured.provider;
+      if (configured.model) stamp.embeddingModel = configured.model;
+      if (configured.dimensions) stamp.embeddingDimensions = configured.dimensions;
+
+      if (Object.keys(stamp).length > 0) {
+        await store.updateMetadata(stamp);
+        this.collectionModel = configured;
+      }
+      return;
+    }
+
+    const modelMismatch = recorded.model && configured.model && recorded.model !== configured.model;
+    const dimensionMismatch = recorded.dimensions && configured.dimensions &&
+      recorded.dimensions !== configured.dimensions;
+
+    if (modelMismatch || dimensionMismatch) {
+      this.embeddingMismatch =
+        `Collection "${this.collectionName}" was built with ${this.describeModel(recorded)}, ` +
+        `but the configured embedding function is ${this.describeModel(configured)}. ` +
+        `Switch EMBEDDING_PROVIDER back to the collection's model, or re-embed the collection ` +
+        `with the new model (vectordb reindex --provider <name>).`;
+    }
+  }
+
+  /**
+   * Embedding model recorded on the collection vs. the configured one
+   */
+  getEmbeddingStatus(): EmbeddingStatus {
+    return {
+      collection: { ...this.collectionModel },
+      configured: {
+        provider: this.embeddingFunction?.provider,
+        model: this.embeddingFunction?.modelId,
+        dimensions: this.embeddingFunction?.dimensions,
+      },
+      compatible: !this.embeddingMismatch,
+    };
+  }
+
+  /**
+   * Throw if the configured embedding model can't be used with the collection
+   */
+  private assertEmbeddingModel(): void {
+    if (this.embeddingMismatch) {
+      throw new Error(this.embeddingMismatch);
+    }
+  }
+
+  /**
+   * Check vector lengths against the collection, recording the
+   * dimension on first write when the model didn't declare one
+   */
+  private async checkDimensions(embeddings: number[][], record = false): Promise<void> {
+    const expected = this.collectionModel.dimensions ?? embeddings[0]?.length;
+    const wrong = embeddings.find(e => e.length !== expected);
+
+    if (wrong) {
+      throw new Error(
+        `Embedding has ${wrong.length} dimensions but collection "${this.collectionName}" ` +
+        `expects ${expected}${this.collectionModel.model ? ` (${this.collectionModel.model})` : ''}. ` +
+        `Use the collection's embedding model, or re-embed the collection (vectordb reindex --provider <name>).`
+      );
+    }
+
+    if (record && expected && !this.collectionModel.dimensions && this.store) {
+      await this.store.updateMetadata({ embeddingDimensions: expected });
+      this.collectionModel = { ...this.collectionModel, dimensions: expected };
+    }
+  }
+
+  /**
+   * Embed documents that don't carry an embedding yet, in batches
+   * Cached embeddings are reused; only cache misses hit the provider
+   */
+  private async embedMissing(
+    documents: VectorDocument[],
+    onProgress?: EmbeddingProgressCallback
+  ): Promise<void> {
+    const docsToEmbed = documents.filter(d => !d.embedding);
+    if (docsToEmbed.length === 0 || !this.embeddingFunction) return;
+
+    const embeddingFunction = this.embeddingFunction;
+    const cache = embeddingFunction.modelId ? this.embeddingCache : null;
+
+    // Document embeddings can depend on the title, so they're cached apart
+    // from plain generate() embeddings of the same text
+    const modelId = embeddingFunction.embedDocuments
+      ? `${embeddingFunction.modelId}#document`
+      : embeddingFunction.modelId!;
+    const cacheText = (doc: VectorDocument) => embeddingFunction.embedDocuments
+      ? `${doc.metadata.title || ''}\n\n${doc.content}`
+      : doc.content;
+
+    const cached = cache
+      ? cache.getMany(modelId, docsToEmbed.map(cacheText))
+      : docsToEmbed.map(() => undefined);
+    const misses = docsToEmbed.filter((_, i) => !cached[i]);
+    const hitCount = docsToEmbed.length - misses.length;
+
+    docsToEmbed.forEach((doc, i) => {
+      if (cached[i]) doc.embedding = cached[i];
+    });
+    if (hitCount > 0) onProgress?.(hitCount, docsToEmbed.length);
+    if (misses.length === 0) return;
+
+    const embeddings = await embedDocuments(
+      embeddingFunction,
+      misses.map(d => ({ text: d.content, title: d.metadata.title })),
+      {
+        concurrency: this.embeddingConcurrency,
+        onProgress: onProgress
+          ? (completed) => onProgress(hitCount + completed, docsToEmbed.length)
+          : undefined,
+      }
+    );
+    misses.forEach((doc, i) => {
+      doc.embedding = embeddings[i];
+    });
+
+    cache?.setMany(modelId, misses.map(cacheText), embeddings);
+  }
+
+  /**
+   * Embedding cache in use, or null if disabled
+   */
+  getEmbeddingCache(): EmbeddingCache | null {
+    return this.embeddingCache;
+  }
+
+  /**
+   * Initialize the database connection and collection
+   * Must be called before using other methods
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    try {
+      this.physicalName = await this.aliases.resolve(this.collectionName);
+      this.aliasCheckedAt = Date.now();
+      this.store = await this.openCollection();
+
+      const target = this.physicalName !== this.collectionName ? ` -> ${this.physicalName}` : '';
+      console.log(`✅ Connected to collection: ${this.collectionName}${target} (${this.backend.type})`);
+
+      this.isInitialized = true;
+    } catch (error) {
+      throw new Error(`Failed to initialize vector DB: ${error}`);
+    }
+  }
+
+  /**
+   * Ensure the database is initialized and following its alias
+   */
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    } else if (Date.now() - this.aliasCheckedAt > ALIAS_REFRESH_MS) {
+      await this.refreshAlias();
+    }
+  }
+
+  /**
+   * Reopen the store if another process flipped the alias
+   */
+  private async refreshAlias(): Promise<void> {
+    this.aliasCheckedAt = Date.now();
+    const physicalName = await this.aliases.resolve(this.collectionName);
+    if (physicalName === this.physicalName) return;
+
+    this.physicalName = physicalName;
+    this.store = await this.openCollection();
+    this.keywordIndex = null;
+  }
+
+  /**
+   * Collection names: the logical name and the physical collection it resolves to
+   */
+  getCollectionInfo(): { name: string; physicalName: string } {
+    return { name: this.collectionName, physicalName: this.physicalName };
+  }
+
+  /**
+   * Unused physical name for a new version of this collection
+   */
+  private async newVersionName(): Promise<string> {
+    const existing = new Set(await this.backend.listCollections());
+    const base = versionName(this.collectionName);
+
+    let name = base;
+    for (let i = 2; existing.has(name); i++) {
+      name = `${base}-${i}`;
+    }
+    return name;
+  }
+
+  /**
+   * Start a blue/green rebuild
+   * Returns a client for a new, empty version of this collection. Fill it,
+   * then commitRebuild() to flip the alias to it, or abortRebuild() to
+   * discard it. Readers keep using the current version until the flip.
+   */
+  async beginRebuild(): Promise<ProjectVectorDB> {
+    await this.ensureInitialized();
+
+    const staging = new ProjectVectorDB({
+      ...this.config,
+      collectionName: await this.newVersionName(),
+      embeddingFunction: this.embeddingFunction,
+    });
+    await staging.initialize();
+    return staging;
+  }
+
+  /**
+   * Point this collection's alias at a rebuilt version
+   * The version it replaces is kept for rollback; older ones are deleted
+   * beyond `keepVersions`.
+   */
+  async commitRebuild(staging: ProjectVectorDB): Promise<AliasEntry> {
+    await this.ensureInitialized();
+    return this.promote(staging.physicalName);
+  }
+
+  /**
+   * Discard a rebuild started with beginRebuild()
+   */
+  async abortRebuild(staging: ProjectVectorDB): Promise<void> {
+    await this.backend.deleteCollection(staging.physicalName);
+  }
+
+  /**
+   * Build a new version of the collection and switch to it on success
+   * @param build - Fills the new version; if it throws, the version is discarded
+   */
+  async rebuild(build: (staging: ProjectVectorDB) => Promise<void>): Promise<AliasEntry> {
+    const staging = await this.beginRebuild();
+    try {
+      await build(staging);
+    } catch (error) {
+      await this.abortRebuild(staging);
+      throw error;
+    }
+    return this.commitRebuild(staging);
+  }
+
+  /**
+   * Point the alias back at the version before the last rebuild
+   */
+  async rollback(): Promise<AliasEntry> {
+    await this.ensureInitialized();
+
+    const entry = await this.aliases.rollback(this.collectionName);
+    await this.switchTo(entry.target);
+
+    console.log(`✅ Collection ${this.collectionName} rolled back to ${entry.target}`);
+    return entry;
+  }
+
+  /**
+   * Flip the alias to a physical collection and prune old versions
+   */
+  private async promote(physicalName: string): Promise<AliasEntry> {
+    const entry = await this.aliases.set(this.collectionName, physicalName, this.physicalName);
+    await this.switchTo(physicalName);
+    await this.pruneVersions(entry);
+    return entry;
+  }
+
+  private async switchTo(physicalName: string): Promise<void> {
+    this.physicalName = physicalName;
+    this.aliasCheckedAt = Date.now();
+    this.store = await this.openCollection();
+    this.keywordIndex = null;
+  }
+
+  /**
+   * Delete the oldest versions beyond `keepVersions`
+   * The live and previous targets are never deleted
+   */
+  private async pruneVersions(entry: AliasEntry): Promise<void> {
+    const protectedNames = new Set([entry.target, entry.previous]);
+
+    // Versions sort by timestamp; a pre-alias collection with the bare name is oldest
+    const versions = (await this.backend.listCollections())
+      .filter(name => name === this.collectionName || isVersionOf(name, this.collectionName))
+      .sort((a, b) => (a === this.collectionName ? -1 : b === this.collectionName ? 1 : a.localeCompare(b)));
+
+    let excess = versions.length - this.keepVersions;
+    for (const name of versions) {
+      if (excess <= 0) break;
+      if (protectedNames.has(name)) continue;
+      await this.backend.deleteCollection(name);
+      excess--;
+    }
+  }
+
+  /**
+   * Get the keyword index, building it from the store on first use
+   * Rebuilt when the collection's lastUpdated changes under it (written by
+   * another process or client), including updates that keep the size.
+   */
+  private async getKeywordIndex(): Promise<KeywordIndex> {
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
+
+    const { lastUpdated } = await this.store.getMetadata();
+    if (!this.keywordIndex || this.keywordIndexWrite !== lastUpdated) {
+      const index = new KeywordIndex();
+      for await (const page of this.readPages({}, 1000)) {
+        for (const record of page) {
+          index.add(record.id, this.keywordText(record.content, record.metadata));
+        }
+      }
+      this.keywordIndex = index;
+      this.keywordIndexWrite = lastUpdated;
+    }
+
+    return this.keywordIndex;
+  }
+
+  /**
+   * Text indexed for keyword search (title + content)
+   */
+  private keywordText(content: string, metadata: DocumentMetadata | StoredMetadata): string {
+    return metadata.title ? `${metadata.title}\n${content}` : content;
+  }
+
+  /**
+   * Translate the public filters into store where/whereDocument clauses
+   * Throws before anything reaches the store if the filter is invalid
+   */
+  private buildStoreFilter(filters: QueryFilters): CompiledFilter {
+    return compileFilter(toFilterExpression(filters));
+  }
+
+  /**
+   * Rank by embedding similarity
+   */
+  private async semanticSearch(
+    query: string,
+    limit: number,
+    threshold: number,
+    filter: CompiledFilter = {}
+  ): Promise<QueryResult[]> {
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
+
+    // Generate embedding for query
+    if (!this.embeddingFunction) {
+      throw new Error('Embedding function not configured. Please provide one in the constructor.');
+    }
+
+    this.assertEmbeddingModel();
+    const embedding = await embedQuery(this.embeddingFunction, query);
+    await this.checkDimensions([embedding]);
+
+    // Query the vector store
+    const matches = await this.store.query(embedding, {
+      nResults: limit,
+      ...filter,
+    });
+
+    // Process and filter results
+    const queryResults: QueryResult[] = [];
+
+    for (const match of matches) {
+      const similarity = 1 - match.distance; // Convert distance to similarity
+
+      if (similarity >= threshold) {
+        queryResults.push({
+          content: match.content,
+          metadata: this.restoreMetadata(match.metadata),
+          score: similarity,
+          similarity,
+          id: match.id,
+        });
+      }
+    }
+
+    return queryResults;
+  }
+
+  /**
+   * Rank by BM25 term matches
+   * Scores are relative to the best match (best = 1)
+   */
+  private async keywordSearch(
+    query: string,
+    limit: number,
+    filter: CompiledFilter = {}
+  ): Promise<QueryResult[]> {
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
+
+    const index = await this.getKeywordIndex();
+
+    // With a filter, rank everything since top hits may be filtered out
+    const isFiltered = !!(filter.where || filter.whereDocument);
+    const matches = index.search(query, isFiltered ? undefined : limit);
+    if (matches.length === 0) return [];
+
+    const records = await this.store.get({ ids: matches.map(m => m.id), ...filter });
+    const recordsById = new Map(records.map(r => [r.id, r]));
+    const bestScore = matches[0].score;
+
+    const queryResults: QueryResult[] = [];
+    for (const match of matches) {
+      const record = recordsById.get(match.id);
+      if (!record) continue;
+
+      queryResults.push({
+        content: record.content,
+        metadata: this.restoreMetadata(record.metadata),
+        score: match.score / bestScore,
+        similarity: match.score / bestScore,
+        id: record.id,
+      });
+      if (queryResults.length >= limit) break;
+    }
+
+    return queryResults;
+  }
+
+  /**
+   * Rerank candidates for diversity and cap results per file
+   * @param candidates - Relevance-ranked results
+   * @param limit - Number of results to keep
+   * @param diversity - MMR tradeoff (0 = relevance only)
+   * @param maxPerFile - Optional cap on results sharing a filePath
+   */
+  private async rerank(
+    candidates: QueryResult[],
+    limit: number,
+    diversity: number,
+    maxPerFile?: number
+  ): Promise<QueryResult[]> {
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
+
+    // MMR compares candidates with each other, so it needs their embeddings
+    const embeddings = new Map<string, number[]>();
+    if (diversity > 0 && candidates.length > 0) {
+      const records = await this.store.get({
+        ids: candidates.map(c => c.id),
+        includeEmbeddings: true,
+      });
+      for (const record of records) {
+        if (record.embedding) embeddings.set(record.id, record.embedding);
+      }
+    }
+
+    const selected = maximalMarginalRelevance(
+      candidates.map(result => ({
+        id: result.id,
+        score: result.score,
+        embedding: embeddings.get(result.id),
+        group: result.metadata.filePath || result.id,
+        result,
+      })),
+      limit,
+      diversity,
+      maxPerFile
+    );
+
+    return selected.map(s => s.result);
+  }
+
+  /**
+   * Search across all project documentation
+   * @param query - Natural language question or exact identifiers
+   * @param options - Search options (limit, threshold, mode, reranking, filters)
+   * @returns Relevant document chunks with scores
+   */
+  async query(
+    query: string,
+    options: QueryOptions = {}
+  ): Promise<QueryResult[]> {
+    await this.ensureInitialized();
+
+    const {
+      limit = 5,
+      threshold = 0.7,
+      mode = 'semantic',
+      diversity = 0,
+      maxPerFile,
+      scoring = {},
+      expandContext = 0,
+    } = options;
+
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
+
+    if (diversity < 0 || diversity > 1) {
+      throw new Error(`diversity must be between 0 and 1, got ${diversity}`);
+    }
+    if (maxPerFile !== undefined && maxPerFile < 1) {
+      throw new Error(`maxPerFile must be at least 1, got ${maxPerFile}`);
+    }
+
+    const scorer: ScoringFunction | null = scoring === false
+      ? null
+      : typeof scoring === 'function'
+        ? scoring
+        : createScoringFunction(scoring);
+
+    // Over-fetch when scoring or reranking, since both can promote lower hits
+    const shouldRerank = diversity > 0 || maxPerFile !== undefined;
+    const fetchLimit = shouldRerank || scorer ? limit * RERANK_CANDIDATE_MULTIPLIER : limit;
+
+    const filter = this.buildStoreFilter(options);
+    let queryResults: QueryResult[];
+
+    switch (mode) {
+      case 'semantic':
+        queryResults = await this.semanticSearch(query, fetchLimit, threshold, filter);
+        break;
+
+      case 'keyword':
+        queryResults = await this.keywordSearch(query, fetchLimit, filter);
+        break;
+
+      case 'hybrid': {
+        // Threshold only gates semantic hits, so exact keyword hits still surface
+        const candidates = fetchLimit * HYBRID_CANDIDATE_MULTIPLIER;
+        const [semantic, keyword] = await Promise.all([
+          this.semanticSearch(query, candidates, threshold, filter),
+          this.keywordSearch(query, candidates, filter),
+        ]);
+
+        // Priority and recency are blended into each ranking on its own
+        // similarities; fusion only sees the resulting ranks
+        const ranked = (results: QueryResult[]) =>
+          (scorer ? results.map(r => ({ ...r, score: scorer(r) })) : results)
+            .sort((a, b) => b.score - a.score)
+            .map(r => r.id);
+        const fused = reciprocalRankFusion([ranked(semantic), ranked(keyword)]);
+
+        // similarity stays the semantic one where there is one, else the keyword one
+        const byId = new Map([...keyword, ...semantic].map(r => [r.id, r]));
+
+        queryResults = Array.from(fused.entries())
+          .map(([id, score]) => ({ ...byId.get(id)!, score }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, fetchLimit);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown search mode: ${mode}. Use 'semantic', 'keyword' or 'hybrid'.`);
+    }
+
+    // Blend in priority and recency (score starts out as raw similarity;
+    // hybrid did this per ranking before fusing)
+    if (scorer && mode !== 'hybrid') {
+      queryResults = queryResults.map(r => ({ ...r, score: scorer(r) }));
+    }
+
+    // Sort by score (highest first)
+    queryResults.sort((a, b) => b.score - a.score);
+
+    if (shouldRerank) {
+      queryResults = await this.rerank(queryResults, limit, diversity, maxPerFile);
+      queryResults.sort((a, b) => b.score - a.score);
+    }
+
+    queryResults = queryResults.slice(0, limit);
+    if (expandContext > 0) {
+      for (const result of queryResults) {
+        result.context = (await this.getNeighbors(result.id, expandContext, expandContext))?.context;
+      }
+    }
+    return queryResults;
+  }
+
+  /**
+   * Search within a specific category
+   * @param category - Doc category (architecture, chatbot, design, etc.)
+   * @param query - Search query
+   * @returns Relevant documents from that category
+   */
+  async searchByCategory(
+    category: string,
+    query: string,
+    options: Omit<QueryOptions, 'category'> = {}
+  ): Promise<QueryResult[]> {
+    return this.query(query, { ...options, category });
+  }
+
+  /**
+   * Client for another collection on the same backend, reused across queries
+   */
+  private async getFederatedClient(name: string): Promise<ProjectVectorDB> {
+    if (name === this.collectionName) return this;
+
+    let client = this.federatedClients.get(name);
+    if (!client) {
+      client = new ProjectVectorDB({
+        ...this.config,
+        collectionName: name,
+        embeddingFunction: this.embeddingFunction,
+      });
+      await client.initialize();
+      this.federatedClients.set(name, client);
+    }
+    return client;
+  }
+
+  /**
+   * Search several collections at once (e.g. one per project) and merge the results
+   * @param query - Search query
+   * @param collections - Collection names; `prefix*` matches every collection with the prefix
+   * @param options - Query options applied to each collection, plus normalizeScores.
+   *   Only semantic mode ranks fairly across collections (see below)
+   * @returns Top `limit` results overall, each tagged with its collection and project
+   */
+  async queryCollections(
+    query: string,
+    collections: string[],
+    options: FederatedQueryOptions = {}
+  ): Promise<FederatedQueryResult[]> {
+    const { limit = 5, normalizeScores = true, ...queryOptions } = options;
+
+    const names = await new CollectionManager(this.config).resolve(collections);
+    if (names.length === 0) {
+      throw new Error(`No collections match ${collections.join(', ')}`);
+    }
+
+    // Project = collection name without the prefix of the pattern that matched it
+    const prefixes = collections.filter(c => c.endsWith('*')).map(c => c.slice(0, -1));
+    const projectName = (name: string) => {
+      const prefix = prefixes.find(p => p && name.startsWith(p) && name.length > p.length);
+      return prefix ? name.slice(prefix.length) : name;
+    };
+
+    const settled = await Promise.allSettled(names.map(async name => {
+      const client = await this.getFederatedClient(name);
+      return client.query(query, { ...queryOptions, limit });
+    }));
+
+    // One unreachable or incompatible collection shouldn't sink the whole search
+    const failures = settled.filter((s): s is PromiseRejectedResult => s.status === 'rejected');
+    if (failures.length === names.length) {
+      throw failures[0].reason;
+    }
+
+    const merged: FederatedQueryResult[] = [];
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'rejected') {
+        const reason = outcome.reason instanceof Error ? outcome.reason.message : outcome.reason;
+        console.warn(`⚠️  Skipped collection ${names[i]}: ${reason}`);
+        return;
+      }
+
+      for (const result of outcome.value) {
+        merged.push({ ...result, collection: names[i], project: projectName(names[i]) });
+      }
+    });
+
+    // One factor for every collection, so this only rescales; the order
+    // is that of the raw scores. Those compare across collections only in
+    // semantic mode: keyword similarity is relative to each collection's
+    // best hit and hybrid scores are ranks, so each collection's top
+    // keyword or hybrid hit scores about the same however weak it is.
+    const maxScore = Math.max(0, ...merged.map(r => r.score));
+    if (normalizeScores && maxScore > 0) {
+      for (const result of merged) {
+        result.score /= maxScore;
+      }
+    }
+
+    return merged
+      .sort((a, b) => b.score - a.score || b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Get recently modified documents
+   * @param days - Number of days to look back
+   * @param filters - Optional category/source/tag filters
+   * @returns Documents modified within the specified time period
+   */
+  async getRecentDocs(
+    days: number,
+    filters: Omit<QueryFilters, 'dateRange'> = {}
+  ): Promise<VectorDocument[]> {
+    await this.ensureInitialized();
+
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
+
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - days);
+
+    // Filter on the numeric lastModified timestamp in the store
+    const documents: VectorDocument[] = [];
+    for await (const doc of this.iterateDocuments({ ...filters, dateRange: { start: cutoffDate } })) {
+      documents.push(doc);
+    }
+    return documents;
+  }
+
+  /**
+   * Put a file back together from its chunks
+   * @param filePath - metadata.filePath of the file's chunks
+   * @returns The stitched document, or null if no chunks have that path
+   */
+  async getDocumentByPath(filePath: string): Promise<FileDocument | null> {
+    const chunks: VectorDocument[] = [];
+    for await (const chunk of this.iterateDocuments({ where: { filePath } })) {
+      chunks.push(chunk);
+    }
+    if (chunks.length === 0) return null;
+
+    const ordered = sortChunks(chunks);
+    const totalChunks = Number(ordered[0].metadata.totalChunks);
+    const indexes = new Set(ordered.map(c => Number(c.metadata.chunkIndex)));
+    const complete = Number.isNaN(totalChunks)
+      ? true
+      : Array.from({ length: totalChunks }, (_, i) => i).every(i => indexes.has(i));
+
+    const metadata = { ...ordered[0].metadata };
+    delete metadata.chunkIndex;
+    delete metadata.totalChunks;
+
+    return {
+      filePath,
+      content: stitchChunks(ordered),
+      metadata,
+      chunkIds: ordered.map(c => c.id),
+      complete,
+    };
+  }
+
+  /**
+   * A chunk with the chunks around it in the same file
+   * Chunks without a filePath and chunkIndex have no neighbors.
+   * @param id - Chunk ID, e.g. from a query result
+   * @param before - Preceding chunks to include (default: 1)
+   * @param after - Following chunks to include (default: 1)
+   * @returns The chunk, its neighbors and their stitched text, or null if
+   *   there is no chunk with that ID
+   */
+  async getNeighbors(id: string, before = 1, after = 1): Promise<ChunkNeighbors | null> {
+    await this.ensureInitialized();
+
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
+
+    const [record] = await this.store.get({ ids: [id] });
+    if (!record) return null;
+
+    const chunk = this.toVectorDocument(record);
+    const { filePath, chunkIndex } = chunk.metadata;
+    const index = Number(chunkIndex);
+    if (!filePath || Number.isNaN(index)) {
+      return { chunk, before: [], after: [], context: chunk.content };
+    }
+
+    const window = await this.getAllDocuments(undefined, {
+      where: {
+        filePath,
+        chunkIndex: { $gte: index - before, $lte: index + after },
+      },
+    });
+    const ordered = sortChunks(window.filter(c => c.id !== id).concat(chunk));
+
+    return {
+      chunk,
+      before: ordered.filter(c => Number(c.metadata.chunkIndex) < index),
+      after: ordered.filter(c => Number(c.metadata.chunkIndex) > index),
+      context: stitchChunks(ordered),
+    };
+  }
+
+  /**
+   * The most relevant context for a query that fits a token budget
+   * Hits from the same file are merged with each other (and with
+   * `includeNeighbors` chunks around them) into sections of adjacent
+   * chunks, overlaps removed. Sections are packed best first; one that
+   * doesn't fit loses chunks farthest from its best hit until it does,
+   * or is left out.
+   * @param query - Natural language query
+   * @param options - Budget and assembly options, plus the query's filters and ranking
+   * @returns Sections with citations (file path and chunk range), and the same as markdown
+   */
+  async getContext(query: string, options: ContextOptions = {}): Promise<ContextResult> {
+    const {
+      tokenBudget = DEFAULT_TOKEN_BUDGET,
+      maxPerFile,
+      includeNeighbors = 0,
+      candidates = DEFAULT_CONTEXT_CANDIDATES,
+      ...queryOptions
+    } = options;
+
+    const hits = await this.query(query, { ...queryOptions, limit: candidates });
+
+    // Hits that aren't file chunks can't be merged and stand alone
+    const spans: ContextSpan[] = [];
+    const standalone: QueryResult[] = [];
+    for (const hit of hits) {
+      const index = Number(hit.metadata.chunkIndex);
+      if (!hit.metadata.filePath || Number.isNaN(index)) {
+        standalone.push(hit);
+        continue;
+      }
+      const totalChunks = Number(hit.metadata.totalChunks);
+      spans.push({
+        filePath: hit.metadata.filePath,
+        start: Math.max(0, index - includeNeighbors),
+        end: Number.isNaN(totalChunks)
+          ? index + includeNeighbors
+          : Math.min(totalChunks - 1, index + includeNeighbors),
+        totalChunks: Number.isNaN(totalChunks) ? undefined : totalChunks,
+        score: hit.score,
+        hits: [hit],
+      });
+    }
+
+    const candidateSpans: (ContextSpan | QueryResult)[] = [...mergeSpans(spans), ...standalone]
+      .sort((a, b) => b.score - a.score);
+
+    const sections: ContextSection[] = [];
+    const perFile = new Map<string, number>();
+    let used = baseTokens(query);
+    let omitted = 0;
+
+    for (const candidate of candidateSpans) {
+      const filePath = 'hits' in candidate ? candidate.filePath : undefined;
+      const candidateHits = 'hits' in candidate ? candidate.hits : [candidate];
+      if (filePath && maxPerFile !== undefined && (perFile.get(filePath) || 0) >= maxPerFile) {
+        omitted += candidateHits.length;
+        continue;
+      }
+
+      let chunks: VectorDocument[] = [candidate as QueryResult];
+      if ('hits' in candidate) {
+        // Spans of adjacent hits are already in hand; neighbors have to be read
+        const hitIndexes = new Set(candidate.hits.map(h => Number(h.metadata.chunkIndex)));
+        const { start, end } = candidate;
+        chunks = hitIndexes.size < end - start + 1
+          ? await this.getAllDocuments(undefined, {
+            where: { filePath: candidate.filePath, chunkIndex: { $gte: start, $lte: end } },
+          })
+          : candidate.hits;
+        chunks = sortChunks(chunks);
+      }
+
+      // Over budget: drop the chunk farthest from the best hit until it fits
+      const bestIndex = Number(candidateHits[0].metadata.chunkIndex);
+      const distance = (chunk: VectorDocument) => Math.abs(Number(chunk.metadata.chunkIndex) - bestIndex);
+      let section = buildSection(chunks, candidate.score, sections.length + 1);
+      while (used + section.tokens > tokenBudget && chunks.length > 1) {
+        chunks = distance(chunks[0]) > distance(chunks[chunks.length - 1])
+          ? chunks.slice(1)
+          : chunks.slice(0, -1);
+        section = buildSection(chunks, candidate.score, sections.length + 1);
+      }
+      if (used + section.tokens > tokenBudget) {
+        omitted += candidateHits.length;
+        continue;
       }
+      omitted += candidateHits.filter(hit => !section.ids.includes(hit.id)).length;
+
+      // Identical or already included text (e.g. a file ingested under two paths)
+      if (sections.some(s => s.content.includes(section.content))) continue;
+
+      sections.push(section);
+      used += section.tokens;
+      if (filePath) perFile.set(filePath, (perFile.get(filePath) || 0) + 1);
     }
-    return sanitized;
+
+    const markdown = formatContext(query, sections);
+    return { query, sections, tokens: estimateTokens(markdown), tokenBudget, omitted, markdown };
   }
 
   /**
-   * Initialize the database connection and collection
-   * Must be called before using other methods
+   * Add documents to the vector database
+   * @param documents - Documents to add with their embeddings
+   * @param options - Progress callback for embedding generation
    */
-  async initialize(): Promise<void> {
-    if (this.isInitialized) return;
+  async addDocuments(documents: VectorDocument[], options: WriteOptions = {}): Promise<void> {
+    await this.ensureInitialized();
 
-    try {
-      // Use getOrCreateCollection for better reliability
-      this.collection = await this.client.getOrCreateCollection({
-        name: this.collectionName,
-        embeddingFunction: this.embeddingFunction,
-        metadata: {
-          description: 'Project documentation for Claude Code agents',
-          created: new Date().toISOString(),
-        },
-      });
-      console.log(`✅ Connected to collection: ${this.collectionName}`);
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
 
-      this.isInitialized = true;
-    } catch (error) {
-      throw new Error(`Failed to initialize vector DB: ${error}`);
+    if (documents.length === 0) return;
+
+    // Generate embeddings if not provided
+    if (!this.embeddingFunction && documents.some(d => !d.embedding)) {
+      throw new Error('Embeddings required but no embedding function provided');
+    }
+    this.assertEmbeddingModel();
+    await this.embedMissing(documents, options.onProgress);
+    await this.checkDimensions(documents.map(d => d.embedding!), true);
+
+    // Add to the store (filter out complex metadata types)
+    await this.store.add(documents.map(d => this.toStoredRecord(d)));
+
+    for (const doc of documents) {
+      this.keywordIndex?.add(doc.id, this.keywordText(doc.content, doc.metadata));
     }
+    await this.markWritten();
   }
 
   /**
-   * Ensure the database is initialized
+   * Update existing documents
+   * @param documents - Documents to update (must have matching IDs)
+   * @param options - Progress callback for embedding generation
    */
-  private async ensureInitialized(): Promise<void> {
-    if (!this.isInitialized) {
-      await this.initialize();
+  async updateDocuments(documents: VectorDocument[], options: WriteOptions = {}): Promise<void> {
+    await this.ensureInitialized();
+
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
+
+    // Generate embeddings if needed
+    this.assertEmbeddingModel();
+    await this.embedMissing(documents, options.onProgress);
+    await this.checkDimensions(
+      documents.filter(d => d.embedding).map(d => d.embedding!),
+      true
+    );
+
+    // Update in the store (filter out complex metadata types)
+    await this.store.update(documents.map(d => this.toStoredRecord(d)));
+
+    for (const doc of documents) {
+      if (this.keywordIndex?.has(doc.id)) {
+        this.keywordIndex.add(doc.id, this.keywordText(doc.content, doc.metadata));
+      }
     }
+    await this.markWritten();
   }
 
   /**
-   * Semantic search across all project documentation
-   * @param query - Natural language question
-   * @param options - Search options (limit, threshold, filters)
-   * @returns Relevant document chunks with scores
+   * Insert new documents and replace changed ones, skipping the rest
+   * Each document's content and metadata are hashed and compared with
+   * the hash stored on write; only new and changed documents are
+   * embedded and written. A document whose metadata changed but whose
+   * text didn't keeps its stored embedding. If a write fails, the
+   * previous versions of the changed documents are put back.
+   * @param documents - Documents to write (a repeated ID keeps the last one)
+   * @param options - Progress callback for embedding generation
+   * @returns How many documents were inserted, updated and left unchanged
    */
-  async query(
-    query: string,
-    options: QueryOptions = {}
-  ): Promise<QueryResult[]> {
+  async upsertDocuments(documents: VectorDocument[], options: WriteOptions = {}): Promise<UpsertResult> {
     await this.ensureInitialized();
 
-    const {
-      limit = 5,
-      threshold = 0.7,
-      category,
-      source,
-      tags,
-      dateRange,
-    } = options;
-
-    if (!this.collection) {
+    if (!this.store) {
       throw new Error('Collection not initialized');
     }
 
-    // Generate embedding for query
-    if (!this.embeddingFunction) {
-      throw new Error('Embedding function not configured. Please provide one in the constructor.');
-    }
+    const byId = new Map(documents.map(d => [d.id, d]));
+    const result: UpsertResult = { inserted: 0, updated: 0, unchanged: 0 };
+    if (byId.size === 0) return result;
 
-    const embedding = await this.embeddingFunction.generate(query);
+    this.assertEmbeddingModel();
 
-    // Build where clause for filtering
-    const whereClause: any = {};
-    if (category) whereClause.category = category;
-    if (source) whereClause.source = source;
-    if (tags && tags.length > 0) {
-      whereClause.tags = { $in: tags };
-    }
-    if (dateRange) {
-      if (dateRange.start || dateRange.end) {
-        whereClause.lastModified = {};
-        if (dateRange.start) {
-          whereClause.lastModified.$gte = dateRange.start.toISOString();
-        }
-        if (dateRange.end) {
-          whereClause.lastModified.$lte = dateRange.end.toISOString();
-        }
+    const existing = new Map(
+      (await this.store.get({ ids: Array.from(byId.keys()), includeEmbeddings: true })).map(r => [r.id, r])
+    );
+
+    const inserts: VectorDocument[] = [];
+    const updates: VectorDocument[] = [];
+    for (const doc of byId.values()) {
+      const stored = existing.get(doc.id);
+      if (!stored) {
+        inserts.push(doc);
+        continue;
       }
+
+      const hash = contentHash(doc.content, this.sanitizeMetadata(doc.metadata));
+      if (stored.metadata[CONTENT_HASH_KEY] === hash) {
+        result.unchanged++;
+        continue;
+      }
+
+      // Same text and title embed the same way
+      const reuse = !doc.embedding && stored.embedding &&
+        stored.content === doc.content && stored.metadata.title === doc.metadata.title;
+      updates.push(reuse ? { ...doc, embedding: stored.embedding } : doc);
     }
 
-    // Query ChromaDB
-    const results = await this.collection.query({
-      queryEmbeddings: [embedding],
-      nResults: limit,
-      where: Object.keys(whereClause).length > 0 ? whereClause : undefined,
-    });
+    const changed = [...inserts, ...updates];
+    if (changed.length === 0) return result;
 
-    // Process and filter results
-    const queryResults: QueryResult[] = [];
+    if (!this.embeddingFunction && changed.some(d => !d.embedding)) {
+      throw new Error('Embeddings required but no embedding function provided');
+    }
+    await this.embedMissing(changed, options.onProgress);
+    await this.checkDimensions(changed.map(d => d.embedding!), true);
 
-    if (results.distances && results.distances[0]) {
-      for (let i = 0; i < results.distances[0].length; i++) {
-        const distance = results.distances[0][i];
-        const similarity = 1 - distance; // Convert distance to similarity
-
-        if (similarity >= threshold) {
-          queryResults.push({
-            content: results.documents[0][i] || '',
-            metadata: (results.metadatas?.[0]?.[i] as DocumentMetadata) || {},
-            score: similarity,
-            id: results.ids[0][i],
-          });
-        }
+    // Replace rather than update, so metadata keys the new version
+    // no longer has (e.g. removed tags) don't linger
+    const replaced = updates.map(d => d.id);
+    try {
+      await this.store.delete(replaced);
+      await this.store.add(changed.map(d => this.toStoredRecord(d)));
+    } catch (error) {
+      // Put the previous versions back
+      try {
+        await this.store.delete(changed.map(d => d.id));
+        await this.store.add(replaced.map(id => existing.get(id)!));
+      } catch (rollbackError) {
+        throw new Error(
+          `Upserting ${changed.length} documents failed (${error instanceof Error ? error.message : error}), ` +
+          `and so did restoring the previous versions (${rollbackError instanceof Error ? rollbackError.message : rollbackError})`
+        );
       }
+      throw error;
     }
 
-    // Sort by score (highest first)
-    queryResults.sort((a, b) => b.score - a.score);
-
-    return queryResults;
-  }
+    for (const doc of changed) {
+      this.keywordIndex?.add(doc.id, this.keywordText(doc.content, doc.metadata));
+    }
+    await this.markWritten();
 
-  /**
-   * Search within a specific category
-   * @param category - Doc category (architecture, chatbot, design, etc.)
-   * @param query - Search query
-   * @returns Relevant documents from that category
-   */
-  async searchByCategory(
-    category: string,
-    query: string,
-    options: Omit<QueryOptions, 'category'> = {}
-  ): Promise<QueryResult[]> {
-    return this.query(query, { ...options, category });
+    result.inserted = inserts.length;
+    result.updated = updates.length;
+    return result;
   }
 
   /**
-   * Get recently modified documents
-   * @param days - Number of days to look back
-   * @returns Documents modified within the specified time period
+   * Make a file's chunks exactly the given documents
+   * Chunks of the file that aren't in `documents` are deleted, changed
+   * ones replaced and unchanged ones (by content hash) left alone, so a
+   * file that shrank leaves no stale chunks behind. Everything is embedded
+   * before the collection is touched; if a write fails, the file's
+   * previous chunks are put back.
+   * @param filePath - metadata.filePath shared by the file's chunks
+   * @param documents - Every chunk of the file's current content
+   * @param options - Progress callback for embedding generation
    */
-  async getRecentDocs(days: number): Promise<VectorDocument[]> {
+  async replaceFileChunks(
+    filePath: string,
+    documents: VectorDocument[],
+    options: WriteOptions = {}
+  ): Promise<ReplaceFileResult> {
     await this.ensureInitialized();
 
-    if (!this.collection) {
+    if (!this.store) {
       throw new Error('Collection not initialized');
     }
 
-    // ChromaDB doesn't support date comparisons directly
-    // Get all documents and filter in JavaScript
-    const results = await this.collection.get();
+    const incoming = new Map<string, VectorDocument>();
+    for (const doc of documents) {
+      if (doc.metadata.filePath !== undefined && doc.metadata.filePath !== filePath) {
+        throw new Error(`Document ${doc.id} belongs to ${doc.metadata.filePath}, not ${filePath}`);
+      }
+      incoming.set(doc.id, { ...doc, metadata: { ...doc.metadata, filePath } });
+    }
 
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - days);
+    this.assertEmbeddingModel();
 
-    const documents: VectorDocument[] = [];
-    for (let i = 0; i < results.ids.length; i++) {
-      const metadata = (results.metadatas?.[i] as any) || {};
-
-      // Check if document is recent enough
-      if (metadata.lastModified) {
-        const docDate = new Date(metadata.lastModified);
-        if (docDate >= cutoffDate) {
-          documents.push({
-            id: results.ids[i],
-            content: results.documents[i] || '',
-            metadata: metadata as DocumentMetadata,
-            embedding: results.embeddings?.[i],
-          });
-        }
+    const previous = new Map<string, StoredRecord>();
+    const filter = this.buildStoreFilter({ where: { filePath } });
+    for await (const page of this.readPages(filter, 500, 0, true)) {
+      page.forEach(record => previous.set(record.id, record));
+    }
+
+    // Text that was already in the file doesn't need embedding again
+    const embeddingKey = (content: string, title: unknown) => `${title ?? ''}\n${content}`;
+    const previousEmbeddings = new Map<string, number[]>();
+    for (const record of previous.values()) {
+      if (record.embedding) {
+        previousEmbeddings.set(embeddingKey(record.content, record.metadata.title), record.embedding);
       }
     }
 
-    return documents;
+    const result: ReplaceFileResult = { inserted: 0, updated: 0, unchanged: 0, removed: 0 };
+    const changed: VectorDocument[] = [];
+    for (const doc of incoming.values()) {
+      const stored = previous.get(doc.id);
+      const hash = contentHash(doc.content, this.sanitizeMetadata(doc.metadata));
+      if (stored && stored.metadata[CONTENT_HASH_KEY] === hash) {
+        result.unchanged++;
+        continue;
+      }
+
+      if (stored) result.updated++;
+      else result.inserted++;
+      doc.embedding ??= previousEmbeddings.get(embeddingKey(doc.content, doc.metadata.title));
+      changed.push(doc);
+    }
+
+    const stale = Array.from(previous.keys()).filter(id => !incoming.has(id));
+    result.removed = stale.length;
+    if (changed.length === 0 && stale.length === 0) return result;
+
+    if (!this.embeddingFunction && changed.some(d => !d.embedding)) {
+      throw new Error('Embeddings required but no embedding function provided');
+    }
+    await this.embedMissing(changed, options.onProgress);
+    await this.checkDimensions(changed.map(d => d.embedding!), true);
+
+    const removed = [...stale, ...changed.filter(d => previous.has(d.id)).map(d => d.id)];
+    try {
+      await this.store.delete(removed);
+      await this.store.add(changed.map(d => this.toStoredRecord(d)));
+    } catch (error) {
+      // Put the file back the way it was
+      try {
+        await this.store.delete(changed.map(d => d.id));
+        await this.store.add(removed.map(id => previous.get(id)!));
+      } catch (rollbackError) {
+        throw new Error(
+          `Replacing the chunks of ${filePath} failed (${error instanceof Error ? error.message : error}), ` +
+          `and so did restoring its previous chunks (${rollbackError instanceof Error ? rollbackError.message : rollbackError})`
+        );
+      }
+      throw error;
+    }
+
+    for (const id of stale) {
+      this.keywordIndex?.remove(id);
+    }
+    for (const doc of changed) {
+      this.keywordIndex?.add(doc.id, this.keywordText(doc.content, doc.metadata));
+    }
+    await this.markWritten();
+
+    return result;
   }
 
   /**
-   * Add documents to the vector database
-   * @param documents - Documents to add with their embeddings
+   * Delete documents by IDs
+   * @param ids - Document IDs to delete
    */
-  async addDocuments(documents: VectorDocument[]): Promise<void> {
+  async deleteDocuments(ids: string[]): Promise<void> {
     await this.ensureInitialized();
 
-    if (!this.collection) {
+    if (!this.store) {
       throw new Error('Collection not initialized');
     }
 
-    if (documents.length === 0) return;
+    if (ids.length === 0) return;
 
-    // Generate embeddings if not provided
-    const docsToEmbed = documents.filter(d => !d.embedding);
-    if (docsToEmbed.length > 0) {
-      if (!this.embeddingFunction) {
-        throw new Error('Embeddings required but no embedding function provided');
-      }
+    await this.store.delete(ids);
 
-      for (const doc of docsToEmbed) {
-        doc.embedding = await this.embeddingFunction.generate(doc.content);
-      }
+    for (const id of ids) {
+      this.keywordIndex?.remove(id);
     }
+    await this.markWritten();
+  }
 
-    // Add to ChromaDB (filter out complex metadata types)
-    await this.collection.add({
-      ids: documents.map(d => d.id),
-      documents: documents.map(d => d.content),
-      embeddings: documents.map(d => d.embedding!),
-      metadatas: documents.map(d => this.sanitizeMetadata(d.metadata)),
-    });
+  /**
+   * Record the time of the latest write in the collection metadata
+   * The keyword index was updated along with this write, so it stays
+   * current unless someone else wrote since it was built.
+   */
+  private async markWritten(): Promise<void> {
+    if (!this.store) return;
+
+    if (this.keywordIndex && (await this.store.getMetadata()).lastUpdated !== this.keywordIndexWrite) {
+      this.keywordIndex = null;
+    }
+
+    const lastUpdated = new Date().toISOString();
+    await this.store.updateMetadata({ lastUpdated });
+    this.keywordIndexWrite = lastUpdated;
   }
 
   /**
-   * Update existing documents
-   * @param documents - Documents to update (must have matching IDs)
+   * Get all documents (use with caution on large collections; see
+   * iterateDocuments and getDocumentsPage)
+   * @param limit - Maximum number of documents to return (default: all)
+   * @param filters - Optional category/source/tag/date filters
+   * @param offset - Number of matching documents to skip
+   * @returns All documents in the collection
    */
-  async updateDocuments(documents: VectorDocument[]): Promise<void> {
+  async getAllDocuments(limit?: number, filters: QueryFilters = {}, offset = 0): Promise<VectorDocument[]> {
     await this.ensureInitialized();
 
-    if (!this.collection) {
+    if (!this.store) {
       throw new Error('Collection not initialized');
     }
 
-    // Generate embeddings if needed
-    for (const doc of documents) {
-      if (!doc.embedding && this.embeddingFunction) {
-        doc.embedding = await this.embeddingFunction.generate(doc.content);
-      }
+    const filter = this.buildStoreFilter(filters);
+    if (limit !== undefined) {
+      const records = await this.store.get({ ...filter, limit, offset });
+      return records.map(r => this.toVectorDocument(r));
     }
 
-    // Update in ChromaDB (filter out complex metadata types)
-    await this.collection.update({
-      ids: documents.map(d => d.id),
-      documents: documents.map(d => d.content),
-      embeddings: documents.map(d => d.embedding),
-      metadatas: documents.map(d => this.sanitizeMetadata(d.metadata)),
-    });
+    // Page explicitly rather than relying on the backend's default cap
+    const documents: VectorDocument[] = [];
+    for await (const page of this.readPages(filter, 1000, offset)) {
+      documents.push(...page.map(r => this.toVectorDocument(r)));
+    }
+    return documents;
   }
 
   /**
-   * Delete documents by IDs
-   * @param ids - Document IDs to delete
+   * One page of documents and a cursor for the next
+   * Cursors are positions in the collection: documents added or deleted
+   * between calls can shift what the next page starts with.
+   * @param filters - Optional category/source/tag/date filters
+   * @param options - Page size and the cursor returned by the previous page
    */
-  async deleteDocuments(ids: string[]): Promise<void> {
+  async getDocumentsPage(filters: QueryFilters = {}, options: PageOptions = {}): Promise<DocumentPage> {
     await this.ensureInitialized();
 
-    if (!this.collection) {
+    if (!this.store) {
       throw new Error('Collection not initialized');
     }
 
-    if (ids.length === 0) return;
+    const { limit = 100, cursor } = options;
+    const offset = cursor ? decodeCursor(cursor) : 0;
 
-    await this.collection.delete({ ids });
+    // One extra record tells whether there is a next page
+    const records = await this.store.get({ ...this.buildStoreFilter(filters), limit: limit + 1, offset });
+    return {
+      documents: records.slice(0, limit).map(r => this.toVectorDocument(r)),
+      nextCursor: records.length > limit ? encodeCursor(offset + limit) : undefined,
+    };
   }
 
   /**
-   * Get all documents (use with caution on large collections)
-   * @param limit - Maximum number of documents to return
-   * @returns All documents in the collection
+   * Every matching document, read from the store a page at a time
+   * @param filters - Optional category/source/tag/date filters
+   * @param pageSize - Documents read per store call
+   * @param includeEmbeddings - Include each document's embedding
    */
-  async getAllDocuments(limit?: number): Promise<VectorDocument[]> {
+  async *iterateDocuments(
+    filters: QueryFilters = {},
+    pageSize = 500,
+    includeEmbeddings = false
+  ): AsyncGenerator<VectorDocument> {
     await this.ensureInitialized();
 
-    if (!this.collection) {
+    if (!this.store) {
       throw new Error('Collection not initialized');
     }
 
-    const results = await this.collection.get({ limit });
-
-    const documents: VectorDocument[] = [];
-    for (let i = 0; i < results.ids.length; i++) {
-      documents.push({
-        id: results.ids[i],
-        content: results.documents[i] || '',
-        metadata: (results.metadatas?.[i] as DocumentMetadata) || {},
-        embedding: results.embeddings?.[i],
-      });
+    const filter = this.buildStoreFilter(filters);
+    for await (const page of this.readPages(filter, pageSize, 0, includeEmbeddings)) {
+      for (const record of page) {
+        yield this.toVectorDocument(record);
+      }
     }
+  }
 
-    return documents;
+  /**
+   * Pages of stored records, from an offset to the end of the collection
+   */
+  private async *readPages(
+    filter: CompiledFilter,
+    pageSize: number,
+    offset = 0,
+    includeEmbeddings = false
+  ): AsyncGenerator<StoredRecord[]> {
+    for (; ; offset += pageSize) {
+      const records = await this.store!.get({ ...filter, limit: pageSize, offset, includeEmbeddings });
+      if (records.length > 0) yield records;
+      if (records.length < pageSize) return;
+    }
   }
 
   /**
-   * Export collection to JSONL for backup
-   * @param outputPath - Path to save the backup file
+   * Export collection to a backup file (format 2.0, streamed)
+   * @param outputPath - Path to save the backup file (.gz compresses it)
+   * @param options - Whether to include embeddings, gzip and encrypt
+   * @returns The backup header, with document count and checksum
    */
-  async exportBackup(outputPath: string): Promise<void> {
+  async exportBackup(outputPath: string, options: BackupOptions = {}): Promise<BackupHeader> {
     await this.ensureInitialized();
 
-    const documents = await this.getAllDocuments();
-    const stats = await this.getStats();
-
-    const backup: BackupData = {
-      version: '1.0',
-      exportDate: new Date().toISOString(),
-      documents,
-      stats,
-    };
+    const { includeEmbeddings = true, gzip = outputPath.endsWith('.gz'), encryption } = options;
 
-    // Write as JSONL (one document per line)
-    const jsonl = documents
-      .map(doc =>
-        JSON.stringify({
-          id: doc.id,
-          content: doc.content,
-          metadata: doc.metadata,
-          // Optionally exclude embeddings to save space
-          // embedding: doc.embedding,
-        })
-      )
-      .join('\n');
+    const header = await writeBackup(outputPath, this.iterateDocuments({}, 500, includeEmbeddings), {
+      collection: this.collectionName,
+      embedding: { ...this.collectionModel },
+      includeEmbeddings,
+      gzip,
+      encryption,
+    });
 
-    // Write backup metadata as first line
-    const fullBackup = JSON.stringify({
-      version: backup.version,
-      exportDate: backup.exportDate,
-      stats: backup.stats,
-    }) + '\n' + jsonl;
+    console.log(`✅ Backup exported to ${outputPath} (${header.documentCount} documents)`);
+    return header;
+  }
 
-    fs.writeFileSync(outputPath, fullBackup);
-    console.log(`✅ Backup exported to ${outputPath}`);
+  /**
+   * Whether a backup's embeddings can be used as-is with the configured model
+   */
+  private canReuseEmbeddings(header: BackupHeader): boolean {
+    if (!header.embeddingEncoding) return false;
+    if (!this.embeddingFunction) return true;
+
+    const backupModel = header.embedding?.model;
+    const configured = this.embeddingFunction;
+    if (!backupModel || !configured.modelId || backupModel !== configured.modelId) return false;
+    return !configured.dimensions || configured.dimensions === header.embedding?.dimensions;
   }
 
   /**
-   * Import backup from JSONL file
+   * Import backup from a backup file (format 1.0 or 2.0, optionally gzipped
+   * or encrypted)
+   * The whole file is validated before anything is written. Stored
+   * embeddings are used when they come from the configured model;
+   * otherwise documents are re-embedded.
    * @param inputPath - Path to the backup file
-   * @param clearExisting - Whether to clear existing data first
+   * @param clearExisting - Replace the collection: the backup is imported into
+   *   a new version that is swapped in only once the import succeeds
+   * @param options - Key for an encrypted backup, and a progress callback
+   *   reported across the whole import
    */
   async importBackup(
     inputPath: string,
-    clearExisting = false
+    clearExisting = false,
+    options: RestoreOptions = {}
   ): Promise<void> {
     await this.ensureInitialized();
 
-    if (!fs.existsSync(inputPath)) {
-      throw new Error(`Backup file not found: ${inputPath}`);
+    const header = await verifyBackup(inputPath, options.encryption);
+    console.log(`📦 Importing backup from ${header.exportDate} (format ${header.version})`);
+
+    const reuseEmbeddings = this.canReuseEmbeddings(header);
+    if (header.embeddingEncoding && !reuseEmbeddings) {
+      console.log(
+        `   Backup embeddings are from ${this.describeModel(header.embedding ?? {})}; ` +
+        're-embedding with the configured model'
+      );
     }
 
-    const content = fs.readFileSync(inputPath, 'utf-8');
-    const lines = content.split('\n').filter(line => line.trim());
+    let imported = 0;
+    const load = async (target: ProjectVectorDB) => {
+      imported = await target.importDocuments(inputPath, reuseEmbeddings, header.documentCount, options);
+    };
 
-    if (lines.length === 0) {
-      throw new Error('Backup file is empty');
+    if (clearExisting) {
+      await this.rebuild(load);
+    } else {
+      await load(this);
     }
 
-    // First line contains metadata
-    const metadata = JSON.parse(lines[0]);
-    console.log(`📦 Importing backup from ${metadata.exportDate}`);
+    console.log(`✅ Import complete: ${imported} documents`);
+  }
+
+  /**
+   * Stream a verified backup into this collection in batches of 100
+   * @param replace - Overwrite documents that already exist (snapshot replay)
+   * @returns Number of documents imported
+   */
+  private async importDocuments(
+    inputPath: string,
+    reuseEmbeddings: boolean,
+    total: number | undefined,
+    options: RestoreOptions = {},
+    replace = false
+  ): Promise<number> {
+    const batchSize = 100;
+    const { documents, deletedIds } = await openBackup(inputPath, options.encryption);
+    let imported = 0;
+    let batch: VectorDocument[] = [];
+
+    const flush = async () => {
+      const done = imported;
+      if (replace) await this.deleteDocuments(batch.map(d => d.id));
+      await this.addDocuments(batch, {
+        onProgress: options.onProgress
+          ? (completed) => options.onProgress!(done + completed, total ?? done + batch.length)
+          : undefined,
+      });
+      imported += batch.length;
+      if (options.onProgress) {
+        options.onProgress(imported, total ?? imported);
+      } else {
+        console.log(`  Imported ${imported}${total !== undefined ? `/${total}` : ''} documents`);
+      }
+      batch = [];
+    };
 
-    // Parse documents
-    const documents: VectorDocument[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const doc = JSON.parse(lines[i]);
-      documents.push(doc);
+    for await (const doc of documents) {
+      if (!reuseEmbeddings) delete doc.embedding;
+      batch.push(doc);
+      if (batch.length === batchSize) await flush();
     }
+    if (batch.length > 0) await flush();
 
-    if (clearExisting && this.collection) {
-      // Clear existing collection
-      await this.client.deleteCollection({ name: this.collectionName });
-      this.collection = await this.client.createCollection({
-        name: this.collectionName,
-        metadata: {
-          description: 'Project documentation for Claude Code agents',
-          created: new Date().toISOString(),
-        },
-      });
+    await this.deleteDocuments(deletedIds);
+    return imported;
+  }
+
+  /**
+   * Take a snapshot into a snapshot directory
+   * Incremental and differential snapshots store only documents added or
+   * changed (by content hash) since their parent, plus deleted IDs. A full
+   * snapshot is taken instead when there is no parent to build on or the
+   * embedding model changed since it.
+   * @param dir - Snapshot directory (shared by every collection)
+   * @param options - Snapshot type, whether to include embeddings, encryption
+   */
+  async createSnapshot(dir: string, options: SnapshotOptions = {}): Promise<SnapshotInfo> {
+    await this.ensureInitialized();
+
+    const { includeEmbeddings = true, encryption } = options;
+    const catalog = new SnapshotCatalog(dir);
+
+    const requested = options.type ?? 'incremental';
+    let parent = requested === 'incremental'
+      ? catalog.latest(this.collectionName)
+      : requested === 'differential'
+        ? catalog.latest(this.collectionName, 'full')
+        : undefined;
+    // Unchanged documents would keep the old model's embeddings
+    if (parent?.embedding && includeEmbeddings && parent.embedding.model !== this.collectionModel.model) {
+      parent = undefined;
     }
+    const type: SnapshotType = parent ? requested : 'full';
+
+    const id = catalog.newId(this.collectionName, type);
+    const snapshot: SnapshotInfo = {
+      id,
+      type,
+      collection: this.collectionName,
+      createdAt: new Date().toISOString(),
+      parent: parent?.id,
+      file: encryption ? `${id}.jsonl.gz.enc` : `${id}.jsonl.gz`,
+      embedding: includeEmbeddings ? { ...this.collectionModel } : undefined,
+      documentCount: 0,
+      added: 0,
+      changed: 0,
+      deleted: 0,
+    };
 
-    // Add documents in batches
-    const batchSize = 100;
-    for (let i = 0; i < documents.length; i += batchSize) {
-      const batch = documents.slice(i, i + batchSize);
-      await this.addDocuments(batch);
-      console.log(`  Imported ${Math.min(i + batchSize, documents.length)}/${documents.length} documents`);
+    // Counts are filled in as the documents stream by, before the header
+    // (which embeds the snapshot) is written
+    const previous = parent ? catalog.readState(parent.id) : new Map<string, string>();
+    const state = new Map<string, string>();
+    const records = this.iterateDocuments({}, 500, includeEmbeddings);
+    async function* changes(): AsyncGenerator<VectorDocument> {
+      for await (const doc of records) {
+        const hash = documentHash(doc);
+        state.set(doc.id, hash);
+
+        const before = previous.get(doc.id);
+        if (before === hash) continue;
+        if (before === undefined) snapshot.added++;
+        else snapshot.changed++;
+        yield doc;
+      }
+    }
+    const deletions = () => {
+      const deleted = Array.from(previous.keys()).filter(docId => !state.has(docId));
+      snapshot.documentCount = state.size;
+      snapshot.deleted = deleted.length;
+      return deleted;
+    };
+
+    fs.mkdirSync(dir, { recursive: true });
+    await writeBackup(catalog.filePath(snapshot), changes(), {
+      collection: this.collectionName,
+      embedding: { ...this.collectionModel },
+      includeEmbeddings,
+      gzip: true,
+      encryption,
+      snapshot,
+      deletions,
+    });
+    catalog.add(snapshot, state);
+    return snapshot;
+  }
+
+  /**
+   * Restore this collection from a snapshot directory
+   * Replays the snapshot's full base and every snapshot on top of it into
+   * a new version, which is swapped in once the replay succeeds.
+   * @param dir - Snapshot directory
+   * @param at - Snapshot ID or point in time (default: newest snapshot)
+   * @param options - Key for encrypted snapshots, and a progress callback
+   * @returns The snapshot restored
+   */
+  async restoreSnapshot(
+    dir: string,
+    at?: string | Date,
+    options: RestoreOptions = {}
+  ): Promise<SnapshotInfo> {
+    await this.ensureInitialized();
+
+    const catalog = new SnapshotCatalog(dir);
+    const target = catalog.resolve(this.collectionName, at);
+    const chain = catalog.chain(target.id);
+
+    // Validate every file before touching the collection
+    const headers: BackupHeader[] = [];
+    for (const snapshot of chain) {
+      headers.push(await verifyBackup(catalog.filePath(snapshot), options.encryption));
     }
 
-    console.log(`✅ Import complete: ${documents.length} documents`);
+    await this.rebuild(async staging => {
+      for (let i = 0; i < chain.length; i++) {
+        await staging.importDocuments(
+          catalog.filePath(chain[i]),
+          this.canReuseEmbeddings(headers[i]),
+          headers[i].documentCount,
+          options,
+          i > 0
+        );
+      }
+    });
+
+    return target;
   }
 
   /**
    * Get collection statistics
+   * Scans every document, a page at a time
    * @returns Statistics about the collection
    */
   async getStats(): Promise<CollectionStats> {
     await this.ensureInitialized();
 
-    if (!this.collection) {
+    if (!this.store) {
       throw new Error('Collection not initialized');
     }
 
-    const count = await this.collection.count();
-    const sample = await this.collection.get({ limit: 1000 });
-
-    // Calculate statistics
     const categories: Record<string, number> = {};
     const sources: Record<string, number> = {};
+    const tags: Record<string, number> = {};
+    const files = new Set<string>();
+    const chunkSizes: ChunkSizeBucket[] = CHUNK_SIZE_BUCKETS.map((min, i) => ({
+      min,
+      max: CHUNK_SIZE_BUCKETS[i + 1],
+      count: 0,
+    }));
+    let totalDocuments = 0;
     let totalChunkSize = 0;
+    let oldest: { time: number; value: string } | undefined;
+    let newest: { time: number; value: string } | undefined;
 
-    for (let i = 0; i < sample.ids.length; i++) {
-      const metadata = sample.metadatas?.[i] as any;
-      const content = sample.documents[i];
+    for await (const doc of this.iterateDocuments({}, 1000)) {
+      const { metadata, content } = doc;
+      totalDocuments++;
 
-      if (metadata?.category) {
+      if (metadata.category) {
         categories[metadata.category] = (categories[metadata.category] || 0) + 1;
       }
-      if (metadata?.source) {
+      if (metadata.source) {
         sources[metadata.source] = (sources[metadata.source] || 0) + 1;
       }
-      if (content) {
-        totalChunkSize += content.length;
+      for (const tag of new Set(metadata.tags ?? [])) {
+        tags[tag] = (tags[tag] || 0) + 1;
+      }
+      if (metadata.filePath) {
+        files.add(metadata.filePath);
+      }
+
+      totalChunkSize += content.length;
+      chunkSizes.filter(bucket => content.length >= bucket.min).pop()!.count++;
+
+      const time = metadata.lastModified ? new Date(metadata.lastModified).getTime() : NaN;
+      if (!Number.isNaN(time)) {
+        if (!oldest || time < oldest.time) oldest = { time, value: metadata.lastModified! };
+        if (!newest || time > newest.time) newest = { time, value: metadata.lastModified! };
       }
     }
 
-    const averageChunkSize = sample.ids.length > 0
-      ? Math.round(totalChunkSize / sample.ids.length)
-      : 0;
+    const collectionMetadata = await this.store.getMetadata();
 
     return {
-      totalDocuments: count,
+      totalDocuments,
       categories,
       sources,
-      lastUpdated: new Date().toISOString(),
-      averageChunkSize,
+      tags,
+      files: files.size,
+      lastUpdated: collectionMetadata.lastUpdated as string | undefined,
+      averageChunkSize: totalDocuments > 0 ? Math.round(totalChunkSize / totalDocuments) : 0,
+      chunkSizes,
+      oldestModified: oldest?.value,
+      newestModified: newest?.value,
+      embedding: { ...this.collectionModel },
     };
   }
 
   /**
    * Clear all documents from the collection
+   * Switches to a new, empty version; the current one is kept for rollback()
    * @param confirm - Must be true to actually delete all documents
    */
   async clearCollection(confirm = false): Promise<void> {
@@ -513,31 +1908,146 @@ export class ProjectVectorDB {
 
     await this.ensureInitialized();
 
-    if (!this.collection) {
+    if (!this.store) {
       throw new Error('Collection not initialized');
     }
 
-    // Delete and recreate the collection
-    await this.client.deleteCollection({ name: this.collectionName });
+    const staging = await this.beginRebuild();
+    const entry = await this.commitRebuild(staging);
+    await this.markWritten();
 
-    this.collection = await this.client.createCollection({
-      name: this.collectionName,
-      metadata: {
-        description: 'Project documentation for Claude Code agents',
-        created: new Date().toISOString(),
-      },
-    });
+    console.log(`✅ Collection ${this.collectionName} cleared (previous version ${entry.previous} kept for rollback)`);
+  }
+
+  /**
+   * Re-embed every document with a different embedding function
+   *
+   * Documents are read in batches, re-embedded into `<collection>-reindex`,
+   * the copy is verified against the source count, then renamed to a new
+   * version and the alias flipped to it (the old version is kept for
+   * rollback). If interrupted, running it again with the same model
+   * resumes: documents already in the copy are not embedded again.
+   * @param embeddingFunction - Embedding function for the rebuilt collection
+   * @param options - Batch size and progress callback
+   * @returns Counts and the collection's new embedding model
+   */
+  async reindex(
+    embeddingFunction: EmbeddingFunction,
+    options: ReindexOptions = {}
+  ): Promise<ReindexResult> {
+    await this.ensureInitialized();
 
-    console.log(`✅ Collection ${this.collectionName} cleared`);
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
+
+    const { batchSize = 100, onProgress } = options;
+    const tempName = `${this.collectionName}${REINDEX_SUFFIX}`;
+
+    const openTarget = async () => {
+      const db = new ProjectVectorDB({ ...this.config, collectionName: tempName, embeddingFunction });
+      await db.initialize();
+      return db;
+    };
+
+    let target = await openTarget();
+
+    // A copy left by an interrupted run with another model can't be resumed
+    if (!target.getEmbeddingStatus().compatible) {
+      await this.backend.deleteCollection(tempName);
+      target = await openTarget();
+    }
+
+    // A resumed copy is kept only where its content hash still matches the source
+    const copied = await target.listHashes();
+    const seen = new Set<string>();
+    const total = await this.store.count();
+    let processed = 0;
+    let reembedded = 0;
+
+    for (let offset = 0; ; offset += batchSize) {
+      const records = await this.store.get({ limit: batchSize, offset });
+      if (records.length === 0) break;
+
+      const pending: VectorDocument[] = [];
+      for (const record of records) {
+        seen.add(record.id);
+        const doc = this.toVectorDocument(record);
+        const hash = this.toStoredRecord(doc).metadata[CONTENT_HASH_KEY];
+        if (copied.get(record.id) !== hash) pending.push(doc);
+      }
+
+      // Copies of documents updated since the interrupted run
+      const outdated = pending.filter(d => copied.has(d.id)).map(d => d.id);
+      if (outdated.length > 0) await target.deleteDocuments(outdated);
+      await target.addDocuments(pending);
+
+      reembedded += pending.length;
+      processed += records.length;
+      onProgress?.(processed, total);
+    }
+
+    // Copies of documents deleted since the interrupted run
+    const removed = Array.from(copied.keys()).filter(id => !seen.has(id));
+    if (removed.length > 0) await target.deleteDocuments(removed);
+
+    const sourceIds = new Set((await this.listHashes()).keys());
+    const targetIds = new Set((await target.listHashes()).keys());
+    const missing = Array.from(sourceIds).filter(id => !targetIds.has(id));
+    const extra = Array.from(targetIds).filter(id => !sourceIds.has(id));
+    if (missing.length > 0 || extra.length > 0) {
+      throw new Error(
+        `Reindex verification failed: ${tempName} is missing ${missing.length} and has ${extra.length} ` +
+        `extra documents compared to ${this.collectionName}. The collection changed during the reindex; ` +
+        `run it again to resume.`
+      );
+    }
+    const targetCount = targetIds.size;
+
+    const version = await this.newVersionName();
+    await this.backend.renameCollection(tempName, version);
+
+    this.embeddingFunction = embeddingFunction;
+    await this.promote(version);
+
+    console.log(`✅ Collection ${this.collectionName} reindexed with ${this.describeModel(this.collectionModel)}`);
+
+    return {
+      collectionName: this.collectionName,
+      totalDocuments: targetCount,
+      reembedded,
+      resumed: targetCount - reembedded,
+      model: { ...this.collectionModel },
+    };
+  }
+
+  /**
+   * Stored content hash of every document in the collection, by ID
+   * (undefined for documents written before hashes were stored)
+   */
+  private async listHashes(pageSize = 1000): Promise<Map<string, unknown>> {
+    await this.ensureInitialized();
+
+    if (!this.store) {
+      throw new Error('Collection not initialized');
+    }
+
+    const hashes = new Map<string, unknown>();
+    for (let offset = 0; ; offset += pageSize) {
+      const records = await this.store.get({ limit: pageSize, offset });
+      records.forEach(r => hashes.set(r.id, r.metadata[CONTENT_HASH_KEY]));
+      if (records.length < pageSize) break;
+    }
+    return hashes;
   }
 
   /**
-   * Check if the ChromaDB server is running
-   * @returns True if the server is accessible
+   * Check if the storage backend is reachable
+   * @returns True if the backend is accessible
    */
   async healthCheck(): Promise<boolean> {
     try {
-      await this.client.heartbeat();
+      await this.backend.heartbeat();
       return true;
     } catch (error) {
       return false;
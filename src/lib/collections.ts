@@ -0,0 +1,273 @@
+/**
+ * Collection management
+ *
+ * ProjectVectorDB works on one collection; CollectionManager works across
+ * all of them on a backend: list, inspect, create, copy, rename and drop.
+ * Names are resolved through aliases the same way the client resolves
+ * them, so `project-docs` means whichever version it currently points at.
+ */
+
+import type {
+  CollectionInfo,
+  EmbeddingProgressCallback,
+  VectorDBConfig,
+  VectorStore,
+  VectorStoreBackend,
+} from './types';
+import { createVectorStoreBackend } from './stores';
+import { AliasRegistry, ALIAS_COLLECTION, isVersionOf } from './aliases';
+
+export interface CopyCollectionOptions {
+  batchSize?: number; // Records read and written per batch (default: 500)
+  onProgress?: EmbeddingProgressCallback; // Reports records copied so far
+}
+
+export class CollectionManager {
+  private backend: VectorStoreBackend;
+  private aliases: AliasRegistry;
+
+  constructor(config: VectorDBConfig = {}) {
+    this.backend = createVectorStoreBackend(config);
+    this.aliases = new AliasRegistry(this.backend);
+  }
+
+  /**
+   * Physical collection names, without the reserved alias table
+   */
+  private async names(): Promise<Set<string>> {
+    const names = await this.backend.listCollections();
+    return new Set(names.filter(name => name !== ALIAS_COLLECTION));
+  }
+
+  private assertNotReserved(name: string): void {
+    if (name === ALIAS_COLLECTION) {
+      throw new Error(`${ALIAS_COLLECTION} is reserved for collection aliases`);
+    }
+  }
+
+  /**
+   * Fail if a name is already taken by a collection or an alias
+   */
+  private async assertAvailable(name: string): Promise<void> {
+    this.assertNotReserved(name);
+
+    if ((await this.names()).has(name)) {
+      throw new Error(`Collection ${name} already exists`);
+    }
+    if (await this.aliases.get(name)) {
+      throw new Error(`${name} is already an alias`);
+    }
+  }
+
+  /**
+   * Resolve an alias and check the collection exists
+   * @returns Physical collection name
+   */
+  private async resolveExisting(name: string): Promise<string> {
+    this.assertNotReserved(name);
+
+    const physicalName = await this.aliases.resolve(name);
+    if (!(await this.names()).has(physicalName)) {
+      throw new Error(`Collection ${name} not found`);
+    }
+    return physicalName;
+  }
+
+  private async describe(name: string, store: VectorStore, aliases: string[]): Promise<CollectionInfo> {
+    const metadata = await store.getMetadata();
+    const embedding = {
+      provider: metadata.embeddingProvider as string | undefined,
+      model: metadata.embeddingModel as string | undefined,
+      dimensions: metadata.embeddingDimensions as number | undefined,
+    };
+
+    // Collections from before model stamping only reveal their vector length
+    if (!embedding.model && !embedding.dimensions) {
+      const [sample] = await store.get({ limit: 1, includeEmbeddings: true });
+      embedding.dimensions = sample?.embedding?.length;
+    }
+
+    return {
+      name,
+      aliases,
+      count: await store.count(),
+      embedding,
+      created: metadata.created as string | undefined,
+      description: metadata.description as string | undefined,
+    };
+  }
+
+  /**
+   * Every collection on the backend, with the aliases pointing at it
+   */
+  async list(): Promise<CollectionInfo[]> {
+    const names = Array.from(await this.names()).sort();
+    const aliases = await this.aliases.list();
+
+    const collections: CollectionInfo[] = [];
+    for (const name of names) {
+      const store = await this.backend.openCollection(name);
+      const pointing = aliases.filter(a => a.target === name).map(a => a.alias);
+      collections.push(await this.describe(name, store, pointing));
+    }
+    return collections;
+  }
+
+  /**
+   * Expand collection names and `prefix*` patterns
+   * Patterns match aliases and collections no alias owns, so each set of
+   * documents is matched once rather than once per version.
+   * @returns Matching names, in the order given
+   */
+  async resolve(patterns: string[]): Promise<string[]> {
+    const names = await this.names();
+    const aliases = await this.aliases.list();
+    const owned = (name: string) => aliases.some(a =>
+      a.target === name || a.previous === name || isVersionOf(name, a.alias)
+    );
+    const logical = [
+      ...aliases.map(a => a.alias),
+      ...Array.from(names).filter(name => !owned(name)),
+    ].sort();
+
+    const resolved = new Set<string>();
+    for (const pattern of patterns) {
+      if (pattern.endsWith('*')) {
+        const prefix = pattern.slice(0, -1);
+        logical.filter(name => name.startsWith(prefix)).forEach(name => resolved.add(name));
+      } else if (logical.includes(pattern) || names.has(pattern)) {
+        resolved.add(pattern);
+      } else {
+        throw new Error(`Collection ${pattern} not found`);
+      }
+    }
+    return Array.from(resolved);
+  }
+
+  /**
+   * Count, embedding model and creation date of a collection
+   * @param name - Collection or alias name
+   */
+  async info(name: string): Promise<CollectionInfo> {
+    const physicalName = await this.resolveExisting(name);
+    const store = await this.backend.openCollection(physicalName);
+    const aliases = (await this.aliases.list())
+      .filter(a => a.target === physicalName)
+      .map(a => a.alias);
+
+    return this.describe(physicalName, store, aliases);
+  }
+
+  /**
+   * Create an empty collection
+   * The embedding model is stamped by the first client that opens it
+   */
+  async create(name: string, description?: string): Promise<CollectionInfo> {
+    await this.assertAvailable(name);
+
+    const store = await this.backend.openCollection(name, {
+      description: description || 'Project documentation for Claude Code agents',
+      created: new Date().toISOString(),
+    });
+    return this.describe(name, store, []);
+  }
+
+  /**
+   * Copy a collection, embeddings included (nothing is re-embedded)
+   * @param from - Collection or alias to copy
+   * @param to - New collection name
+   */
+  async copy(from: string, to: string, options: CopyCollectionOptions = {}): Promise<CollectionInfo> {
+    const { batchSize = 500, onProgress } = options;
+    const sourceName = await this.resolveExisting(from);
+    await this.assertAvailable(to);
+
+    const source = await this.backend.openCollection(sourceName);
+    const total = await source.count();
+    const target = await this.backend.openCollection(to, {
+      ...(await source.getMetadata()),
+      created: new Date().toISOString(),
+    });
+
+    try {
+      let copied = 0;
+      for (let offset = 0; ; offset += batchSize) {
+        const records = await source.get({ limit: batchSize, offset, includeEmbeddings: true });
+        if (records.length > 0) {
+          await target.add(records);
+          copied += records.length;
+          onProgress?.(copied, total);
+        }
+        if (records.length < batchSize) break;
+      }
+    } catch (error) {
+      // Don't leave a partial copy behind
+      await this.backend.deleteCollection(to);
+      throw error;
+    }
+
+    return this.describe(to, target, []);
+  }
+
+  /**
+   * Rename a collection or an alias
+   * Renaming a physical collection updates the aliases pointing at it.
+   * Renaming an alias keeps its collections; versions built before the
+   * rename keep their old names.
+   */
+  async rename(from: string, to: string): Promise<void> {
+    this.assertNotReserved(from);
+    await this.assertAvailable(to);
+
+    const alias = await this.aliases.get(from);
+    if (alias) {
+      await this.aliases.set(to, alias.target, alias.previous);
+      await this.aliases.remove(from);
+      return;
+    }
+
+    if (!(await this.names()).has(from)) {
+      throw new Error(`Collection ${from} not found`);
+    }
+    await this.backend.renameCollection(from, to);
+    await this.aliases.retarget(from, to);
+  }
+
+  /**
+   * Delete a collection
+   * Dropping an alias deletes every version of it along with the alias.
+   * A collection an alias currently points at can't be dropped on its own.
+   * @returns Physical collections deleted
+   */
+  async drop(name: string): Promise<string[]> {
+    this.assertNotReserved(name);
+    const names = await this.names();
+
+    const alias = await this.aliases.get(name);
+    if (alias) {
+      const versions = Array.from(names).filter(n =>
+        n === alias.target || n === alias.previous || isVersionOf(n, name)
+      );
+      for (const version of versions) {
+        await this.backend.deleteCollection(version);
+      }
+      await this.aliases.remove(name);
+      return versions;
+    }
+
+    if (!names.has(name)) {
+      throw new Error(`Collection ${name} not found`);
+    }
+
+    const live = (await this.aliases.list()).filter(a => a.target === name);
+    if (live.length > 0) {
+      const aliasNames = live.map(a => a.alias).join(', ');
+      throw new Error(`Collection ${name} is in use by alias ${aliasNames}; drop the alias instead`);
+    }
+
+    await this.backend.deleteCollection(name);
+    // It may still be recorded as an alias's rollback target
+    await this.aliases.retarget(name, '');
+    return [name];
+  }
+}
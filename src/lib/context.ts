@@ -0,0 +1,128 @@
+/**
+ * Context assembly
+ *
+ * Turns search hits into context for a prompt: hits (and the neighbors
+ * asked for) from the same file become spans of adjacent chunks, each
+ * stitched into one section, and sections are packed most relevant first
+ * until the token budget is spent. Token counts are estimates (about
+ * four characters a token), not a particular model's tokenizer.
+ */
+
+import type { ContextSection, QueryResult, VectorDocument } from './types';
+import { stitchChunks } from './chunks';
+
+const CHARS_PER_TOKEN = 4;
+
+// Hits (and their neighbors) covering consecutive chunks of one file
+export interface ContextSpan {
+  filePath: string;
+  start: number; // First chunkIndex
+  end: number; // Last chunkIndex
+  totalChunks?: number;
+  score: number; // Best hit's
+  hits: QueryResult[]; // Best first
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Merge spans of the same file that overlap or touch
+ * @returns Merged spans, best score first
+ */
+export function mergeSpans(spans: ContextSpan[]): ContextSpan[] {
+  const byFile = new Map<string, ContextSpan[]>();
+  for (const span of spans) {
+    const fileSpans = byFile.get(span.filePath) || [];
+    fileSpans.push(span);
+    byFile.set(span.filePath, fileSpans);
+  }
+
+  const merged: ContextSpan[] = [];
+  for (const fileSpans of Array.from(byFile.values())) {
+    fileSpans.sort((a, b) => a.start - b.start);
+
+    let current = { ...fileSpans[0], hits: [...fileSpans[0].hits] };
+    for (const span of fileSpans.slice(1)) {
+      if (span.start <= current.end + 1) {
+        current.end = Math.max(current.end, span.end);
+        current.score = Math.max(current.score, span.score);
+        current.hits.push(...span.hits);
+      } else {
+        merged.push(current);
+        current = { ...span, hits: [...span.hits] };
+      }
+    }
+    merged.push(current);
+  }
+
+  for (const span of merged) {
+    span.hits.sort((a, b) => b.score - a.score);
+  }
+  return merged.sort((a, b) => b.score - a.score);
+}
+
+function contextHeading(query: string): string {
+  return `# Context: ${query}\n\n`;
+}
+
+/**
+ * Citation line of a section, e.g. `## [1] Auth Guide — docs/auth.md (chunks 3-5 of 10)`
+ * Chunks are numbered from 1 here, unlike chunkIndex.
+ */
+function sectionHeading(section: Omit<ContextSection, 'tokens'>, position: number): string {
+  const name = [section.title, section.filePath].filter(Boolean).join(' — ') || section.ids[0];
+
+  let range = '';
+  if (section.chunkStart !== undefined && section.chunkEnd !== undefined) {
+    range = section.chunkStart === section.chunkEnd
+      ? `chunk ${section.chunkStart + 1}`
+      : `chunks ${section.chunkStart + 1}-${section.chunkEnd + 1}`;
+    if (section.totalChunks !== undefined) range += ` of ${section.totalChunks}`;
+    range = ` (${range})`;
+  }
+
+  return `## [${position}] ${name}${range}`;
+}
+
+function renderSection(section: Omit<ContextSection, 'tokens'>, position: number): string {
+  return `${sectionHeading(section, position)}\n\n${section.content.trim()}\n\n`;
+}
+
+/**
+ * Stitch chunks of one file (in reading order) into a section
+ * @param position - Where the section will appear (1-based), for its citation
+ */
+export function buildSection(chunks: VectorDocument[], score: number, position: number): ContextSection {
+  const first = chunks[0].metadata;
+  const indexes = chunks.map(c => Number(c.metadata.chunkIndex)).filter(i => !Number.isNaN(i));
+  const totalChunks = Number(first.totalChunks);
+
+  const section: Omit<ContextSection, 'tokens'> = {
+    filePath: first.filePath,
+    title: first.title,
+    chunkStart: indexes.length > 0 ? Math.min(...indexes) : undefined,
+    chunkEnd: indexes.length > 0 ? Math.max(...indexes) : undefined,
+    totalChunks: Number.isNaN(totalChunks) ? undefined : totalChunks,
+    ids: chunks.map(c => c.id),
+    score,
+    content: stitchChunks(chunks),
+  };
+
+  return { ...section, tokens: estimateTokens(renderSection(section, position)) };
+}
+
+/**
+ * Estimated tokens the context takes before any section is added
+ */
+export function baseTokens(query: string): number {
+  return estimateTokens(contextHeading(query));
+}
+
+/**
+ * Packed sections as markdown, one cited heading per section
+ */
+export function formatContext(query: string, sections: ContextSection[]): string {
+  return (contextHeading(query) + sections.map((s, i) => renderSection(s, i + 1)).join('')).trimEnd() + '\n';
+}
@@ -0,0 +1,219 @@
+/**
+ * Persistent embedding cache
+ *
+ * Content-addressed: the key is a hash of the embedding model id and the
+ * normalized text, so re-ingesting or restoring unchanged documents costs
+ * no embedding calls. Each vector is one Float32 file under
+ * `<dir>/<first two hash chars>/<hash>.f32`; least recently used entries
+ * are evicted once the entry or byte limit is exceeded.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import crypto from 'crypto';
+
+export interface EmbeddingCacheOptions {
+  dir?: string; // Default: defaultEmbeddingCacheDir()
+  maxEntries?: number; // Default: 100000
+  maxBytes?: number; // Default: 512 MB
+}
+
+export interface EmbeddingCacheStats {
+  dir: string;
+  entries: number;
+  sizeBytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  hits: number; // Since this cache instance was created
+  misses: number;
+}
+
+const FILE_EXTENSION = '.f32';
+
+// Evict down to this fraction of the limits so we don't prune on every write
+const PRUNE_TARGET = 0.9;
+
+/**
+ * Per-user cache directory ($XDG_CACHE_HOME/vectordb/embedding-cache, else
+ * ~/.cache/...). Entries are keyed by model and text, so projects and
+ * backends can share it.
+ */
+export function defaultEmbeddingCacheDir(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(cacheHome, 'vectordb', 'embedding-cache');
+}
+
+interface CacheFile {
+  filePath: string;
+  size: number;
+  lastUsed: number;
+}
+
+export class EmbeddingCache {
+  readonly dir: string;
+  private maxEntries: number;
+  private maxBytes: number;
+  private hits = 0;
+  private misses = 0;
+
+  // Tracked lazily from the first write so limits can be checked cheaply
+  private usage: { entries: number; bytes: number } | null = null;
+
+  constructor(options: EmbeddingCacheOptions = {}) {
+    this.dir = options.dir || defaultEmbeddingCacheDir();
+    this.maxEntries = options.maxEntries ?? 100000;
+    this.maxBytes = options.maxBytes ?? 512 * 1024 * 1024;
+  }
+
+  /**
+   * Normalize text so trivially different copies share an entry
+   */
+  static normalize(text: string): string {
+    return text.normalize('NFC').replace(/\r\n?/g, '\n').trim();
+  }
+
+  /**
+   * Cache key for a model + text pair
+   */
+  static key(modelId: string, text: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${modelId}\0${EmbeddingCache.normalize(text)}`)
+      .digest('hex');
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.dir, key.slice(0, 2), `${key}${FILE_EXTENSION}`);
+  }
+
+  /**
+   * Look up embeddings
+   * @returns One entry per text, undefined where not cached
+   */
+  getMany(modelId: string, texts: string[]): (number[] | undefined)[] {
+    const now = new Date();
+
+    return texts.map(text => {
+      const filePath = this.filePath(EmbeddingCache.key(modelId, text));
+      try {
+        const buffer = fs.readFileSync(filePath);
+        // Copy into a fresh (aligned) ArrayBuffer before viewing as floats
+        const vector = new Float32Array(new Uint8Array(buffer).buffer);
+        // Touch for LRU eviction
+        fs.utimesSync(filePath, now, now);
+        this.hits++;
+        return Array.from(vector);
+      } catch {
+        this.misses++;
+        return undefined;
+      }
+    });
+  }
+
+  /**
+   * Store embeddings, evicting old entries if over the limits
+   */
+  setMany(modelId: string, texts: string[], embeddings: number[][]): void {
+    const usage = this.getUsage();
+
+    texts.forEach((text, i) => {
+      const filePath = this.filePath(EmbeddingCache.key(modelId, text));
+      if (fs.existsSync(filePath)) return;
+
+      const buffer = Buffer.from(new Float32Array(embeddings[i]).buffer);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, buffer);
+
+      usage.entries++;
+      usage.bytes += buffer.byteLength;
+    });
+
+    if (usage.entries > this.maxEntries || usage.bytes > this.maxBytes) {
+      this.prune();
+    }
+  }
+
+  /**
+   * List every cache file
+   */
+  private scan(): CacheFile[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    const files: CacheFile[] = [];
+    for (const shard of fs.readdirSync(this.dir)) {
+      const shardPath = path.join(this.dir, shard);
+      if (!fs.statSync(shardPath).isDirectory()) continue;
+
+      for (const name of fs.readdirSync(shardPath)) {
+        if (!name.endsWith(FILE_EXTENSION)) continue;
+        const filePath = path.join(shardPath, name);
+        const stat = fs.statSync(filePath);
+        files.push({ filePath, size: stat.size, lastUsed: stat.mtimeMs });
+      }
+    }
+    return files;
+  }
+
+  private getUsage(): { entries: number; bytes: number } {
+    if (!this.usage) {
+      const files = this.scan();
+      this.usage = {
+        entries: files.length,
+        bytes: files.reduce((sum, f) => sum + f.size, 0),
+      };
+    }
+    return this.usage;
+  }
+
+  /**
+   * Evict least recently used entries until under the limits
+   * @returns Number of entries removed
+   */
+  prune(): number {
+    const files = this.scan().sort((a, b) => a.lastUsed - b.lastUsed);
+    let entries = files.length;
+    let bytes = files.reduce((sum, f) => sum + f.size, 0);
+    let removed = 0;
+
+    const overLimit = () =>
+      entries > this.maxEntries * PRUNE_TARGET || bytes > this.maxBytes * PRUNE_TARGET;
+
+    if (entries > this.maxEntries || bytes > this.maxBytes) {
+      for (const file of files) {
+        if (!overLimit()) break;
+        fs.rmSync(file.filePath, { force: true });
+        entries--;
+        bytes -= file.size;
+        removed++;
+      }
+    }
+
+    this.usage = { entries, bytes };
+    return removed;
+  }
+
+  /**
+   * Remove every cached embedding
+   * @returns Number of entries removed
+   */
+  clear(): number {
+    const entries = this.scan().length;
+    fs.rmSync(this.dir, { recursive: true, force: true });
+    this.usage = { entries: 0, bytes: 0 };
+    return entries;
+  }
+
+  stats(): EmbeddingCacheStats {
+    const files = this.scan();
+    return {
+      dir: this.dir,
+      entries: files.length,
+      sizeBytes: files.reduce((sum, f) => sum + f.size, 0),
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+}
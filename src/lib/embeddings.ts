@@ -3,8 +3,151 @@
  * Reuses existing embedding logic to maintain consistency
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { EmbeddingFunction } from './types';
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import type { EmbedContentRequest } from '@google/generative-ai';
+import type {
+  DocumentEmbeddingInput,
+  EmbeddingFunction,
+  EmbeddingProgressCallback,
+  EmbeddingProvider,
+} from './types';
+import { tokenize } from './keyword-index';
+
+export interface RetryOptions {
+  maxRetries?: number; // Retries after the first attempt (default: 5)
+  baseDelayMs?: number; // First backoff delay (default: 500)
+  maxDelayMs?: number; // Backoff ceiling (default: 30000)
+}
+
+export interface GoogleAIEmbeddingOptions extends RetryOptions {
+  batchSize?: number; // Texts per batchEmbedContents request (API max: 100)
+  concurrency?: number; // Parallel batch requests (default: 4)
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+const TRANSIENT_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+const TRANSIENT_MESSAGE = /\b(408|429|500|502|503|504)\b|rate limit|quota|timeout|timed out|overloaded|unavailable|ECONNRESET|ETIMEDOUT|EAI_AGAIN|fetch failed/i;
+
+/**
+ * Whether an error is worth retrying (rate limits, server errors, network blips)
+ */
+export function isTransientError(error: unknown): boolean {
+  const status = (error as any)?.status ?? (error as any)?.response?.status;
+  if (typeof status === 'number') {
+    return TRANSIENT_STATUS_CODES.has(status);
+  }
+  return TRANSIENT_MESSAGE.test(String((error as any)?.message ?? error));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an async call, retrying transient errors with exponential backoff
+ * Each delay is jittered between half and the full backoff so parallel
+ * callers hitting the same rate limit don't retry in lockstep
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { maxRetries = 5, baseDelayMs = 500, maxDelayMs = 30000 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || !isTransientError(error)) {
+        throw error;
+      }
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(backoff / 2 + Math.random() * (backoff / 2));
+    }
+  }
+}
+
+/**
+ * Map over items with at most `concurrency` calls in flight
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    () => worker()
+  );
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Embed many texts with any EmbeddingFunction
+ * Uses the provider's generateBatch when it has one, otherwise falls
+ * back to parallel generate() calls bounded by `concurrency`
+ */
+export async function embedInBatches(
+  embeddingFunction: EmbeddingFunction,
+  texts: string[],
+  options: { concurrency?: number; onProgress?: EmbeddingProgressCallback } = {}
+): Promise<number[][]> {
+  const { concurrency = DEFAULT_CONCURRENCY, onProgress } = options;
+  if (texts.length === 0) return [];
+
+  if (embeddingFunction.generateBatch) {
+    return embeddingFunction.generateBatch(texts, onProgress);
+  }
+
+  let completed = 0;
+  return mapWithConcurrency(texts, concurrency, async text => {
+    const embedding = await embeddingFunction.generate(text);
+    onProgress?.(++completed, texts.length);
+    return embedding;
+  });
+}
+
+/**
+ * Embed a search query, using the provider's query embedding if it has one
+ */
+export async function embedQuery(
+  embeddingFunction: EmbeddingFunction,
+  text: string
+): Promise<number[]> {
+  return embeddingFunction.embedQuery
+    ? embeddingFunction.embedQuery(text)
+    : embeddingFunction.generate(text);
+}
+
+/**
+ * Embed documents for storage, using the provider's document embedding
+ * if it has one, otherwise embedInBatches over the text alone
+ */
+export async function embedDocuments(
+  embeddingFunction: EmbeddingFunction,
+  documents: DocumentEmbeddingInput[],
+  options: { concurrency?: number; onProgress?: EmbeddingProgressCallback } = {}
+): Promise<number[][]> {
+  if (documents.length === 0) return [];
+
+  if (embeddingFunction.embedDocuments) {
+    return embeddingFunction.embedDocuments(documents, options.onProgress);
+  }
+  return embedInBatches(embeddingFunction, documents.map(d => d.text), options);
+}
 
 /**
  * Google AI embedding function using text-embedding-004 model
@@ -12,10 +155,14 @@ import type { EmbeddingFunction } from './types';
  * to ensure consistency in vector search results
  */
 export class GoogleAIEmbeddingFunction implements EmbeddingFunction {
+  readonly provider = 'google';
+  readonly modelId = 'google/text-embedding-004';
+  readonly dimensions = 768;
   private genAI: GoogleGenerativeAI;
   private model: any;
+  private options: GoogleAIEmbeddingOptions;
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, options: GoogleAIEmbeddingOptions = {}) {
     const key = apiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY;
 
     if (!key) {
@@ -28,22 +175,540 @@ export class GoogleAIEmbeddingFunction implements EmbeddingFunction {
     this.model = this.genAI.getGenerativeModel({
       model: 'text-embedding-004', // Same as chatbot
     });
+    this.options = options;
   }
 
   /**
    * Generate embeddings for a text string
    * @param text - Text to embed
-   * @returns Embedding vector (384 dimensions for text-embedding-004)
+   * @returns Embedding vector (768 dimensions for text-embedding-004)
    */
   async generate(text: string): Promise<number[]> {
     try {
-      const result = await this.model.embedContent(text);
+      const result = await withRetry(() => this.model.embedContent(text), this.options) as any;
       return result.embedding.values;
     } catch (error) {
       console.error('Error generating embedding:', error);
       throw new Error(`Failed to generate embedding: ${error}`);
     }
   }
+
+  /**
+   * Embed a search query (RETRIEVAL_QUERY task type)
+   * @param text - Query text
+   * @returns Embedding vector
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    try {
+      const request: EmbedContentRequest = {
+        content: { role: 'user', parts: [{ text }] },
+        taskType: TaskType.RETRIEVAL_QUERY,
+      };
+      const result = await withRetry(() => this.model.embedContent(request), this.options) as any;
+      return result.embedding.values;
+    } catch (error) {
+      console.error('Error generating embedding:', error);
+      throw new Error(`Failed to generate embedding: ${error}`);
+    }
+  }
+
+  /**
+   * Generate embeddings for many texts via batchEmbedContents
+   * @param texts - Texts to embed
+   * @param onProgress - Called after each batch request completes
+   * @returns Embedding vectors in input order
+   */
+  async generateBatch(
+    texts: string[],
+    onProgress?: EmbeddingProgressCallback
+  ): Promise<number[][]> {
+    return this.batchEmbed(
+      texts.map(text => ({ content: { role: 'user', parts: [{ text }] } })),
+      onProgress
+    );
+  }
+
+  /**
+   * Embed documents for storage (RETRIEVAL_DOCUMENT task type, with title)
+   * @param documents - Document text and optional title
+   * @param onProgress - Called after each batch request completes
+   * @returns Embedding vectors in input order
+   */
+  async embedDocuments(
+    documents: DocumentEmbeddingInput[],
+    onProgress?: EmbeddingProgressCallback
+  ): Promise<number[][]> {
+    return this.batchEmbed(
+      documents.map(({ text, title }) => ({
+        content: { role: 'user', parts: [{ text }] },
+        taskType: TaskType.RETRIEVAL_DOCUMENT,
+        // The API only accepts a title with RETRIEVAL_DOCUMENT
+        ...(title ? { title } : {}),
+      })),
+      onProgress
+    );
+  }
+
+  /**
+   * Send embed requests in batchEmbedContents calls of `batchSize`
+   */
+  private async batchEmbed(
+    requests: EmbedContentRequest[],
+    onProgress?: EmbeddingProgressCallback
+  ): Promise<number[][]> {
+    const { batchSize = 100, concurrency = DEFAULT_CONCURRENCY } = this.options;
+
+    const batches: EmbedContentRequest[][] = [];
+    for (let i = 0; i < requests.length; i += batchSize) {
+      batches.push(requests.slice(i, i + batchSize));
+    }
+
+    let completed = 0;
+    try {
+      const results = await mapWithConcurrency(batches, concurrency, async batch => {
+        const result = await withRetry(
+          () => this.model.batchEmbedContents({ requests: batch }),
+          this.options
+        ) as any;
+
+        completed += batch.length;
+        onProgress?.(completed, requests.length);
+        return result.embeddings.map((e: { values: number[] }) => e.values);
+      });
+
+      return results.flat();
+    } catch (error) {
+      console.error('Error generating embeddings:', error);
+      throw new Error(`Failed to generate embeddings: ${error}`);
+    }
+  }
+}
+
+export interface HashingEmbeddingOptions {
+  dimensions?: number; // Vector length (default: 768)
+  ngramSize?: number; // Character n-gram length (default: 3)
+}
+
+// Too common to say anything about a document's topic
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for',
+  'from', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'should',
+  'so', 'that', 'the', 'this', 'to', 'was', 'we', 'what', 'when', 'where',
+  'which', 'why', 'will', 'with', 'you',
+]);
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline embedding function using feature hashing
+ * Words, word bigrams and character n-grams are hashed into a fixed
+ * number of dimensions, so texts sharing vocabulary (including
+ * partial words like "auth" / "authentication") get similar vectors.
+ * Deterministic and network-free, for local development and CI.
+ * Similarities run lower than with neural models, so use a lower
+ * query threshold (around 0.2).
+ */
+export class HashingEmbeddingFunction implements EmbeddingFunction {
+  readonly provider = 'local';
+  readonly modelId: string;
+  readonly dimensions: number;
+  private ngramSize: number;
+
+  constructor(options: HashingEmbeddingOptions = {}) {
+    const { dimensions = 768, ngramSize = 3 } = options;
+
+    if (!Number.isInteger(dimensions) || dimensions <= 0) {
+      throw new Error(`Invalid dimensions: ${dimensions}`);
+    }
+    if (!Number.isInteger(ngramSize) || ngramSize <= 0) {
+      throw new Error(`Invalid ngramSize: ${ngramSize}`);
+    }
+
+    this.dimensions = dimensions;
+    this.ngramSize = ngramSize;
+    this.modelId = `local/hashing-v1-${dimensions}d-${ngramSize}g`;
+  }
+
+  /**
+   * Weighted features of a text
+   * Each word contributes 1 to its word feature and 1 spread across its
+   * character n-grams; adjacent words add a half-weight bigram
+   */
+  private features(text: string): Map<string, number> {
+    const words = tokenize(text).filter(word => !STOPWORDS.has(word));
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) =>
+      features.set(feature, (features.get(feature) || 0) + weight);
+
+    words.forEach((word, i) => {
+      add(`w:${word}`, 1);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`, 0.5);
+
+      const padded = `#${word}#`;
+      const count = Math.max(1, padded.length - this.ngramSize + 1);
+      for (let j = 0; j < count; j++) {
+        add(`c:${padded.slice(j, j + this.ngramSize)}`, 1 / count);
+      }
+    });
+
+    return features;
+  }
+
+  /**
+   * Generate embeddings for a text string
+   * @param text - Text to embed
+   * @returns L2-normalized vector of `dimensions` length (all zeros for empty text)
+   */
+  async generate(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const [feature, weight] of this.features(text)) {
+      const hash = fnv1a(feature);
+      // A hash-derived sign keeps collisions from only ever adding up
+      const sign = hash & 0x80000000 ? -1 : 1;
+      // Dampen repeated terms so long documents aren't dominated by them
+      vector[hash % this.dimensions] += sign * Math.sqrt(weight);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+}
+
+export interface HttpEmbeddingOptions extends RetryOptions {
+  api?: 'openai' | 'ollama'; // Request format (default: openai)
+  baseUrl?: string; // Server root, e.g. http://localhost:11434 (a trailing /v1 is fine)
+  model?: string; // Default: text-embedding-3-small (openai), nomic-embed-text (ollama)
+  dimensions?: number; // Vector length (default: known for common models, else taken from the first response)
+  apiKey?: string; // Sent as a Bearer token
+  headers?: Record<string, string>; // Extra request headers
+  batchSize?: number; // Texts per /v1/embeddings request (default: 64; Ollama embeds one per request)
+  concurrency?: number; // Parallel requests (default: 4)
+  timeoutMs?: number; // Per request (default: 60000)
+}
+
+const HTTP_DEFAULTS = {
+  openai: { baseUrl: 'https://api.openai.com', model: 'text-embedding-3-small' },
+  ollama: { baseUrl: 'http://localhost:11434', model: 'nomic-embed-text' },
+};
+
+// Vector lengths of common models, by `${api}/${model}`
+const HTTP_MODEL_DIMENSIONS: Record<string, number> = {
+  'openai/text-embedding-3-small': 1536,
+  'openai/text-embedding-3-large': 3072,
+  'openai/text-embedding-ada-002': 1536,
+  'ollama/nomic-embed-text': 768,
+  'ollama/mxbai-embed-large': 1024,
+  'ollama/all-minilm': 384,
+};
+
+/**
+ * Server part of an HTTP model id: host and path, without the scheme or a
+ * trailing slash, and without the optional /v1 of OpenAI-compatible servers
+ */
+function serverId(api: 'openai' | 'ollama', baseUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw new Error(`Invalid embedding base URL: ${baseUrl}`);
+  }
+
+  const id = `${url.host}${url.pathname}`.replace(/\/+$/, '');
+  return api === 'openai' ? id.replace(/\/v1$/, '') : id;
+}
+
+/**
+ * Embedding function for HTTP embedding servers
+ * Speaks the OpenAI `/v1/embeddings` API (OpenAI, vLLM, LM Studio,
+ * llama.cpp, LocalAI, ...) or Ollama's `/api/embeddings`
+ */
+export class HttpEmbeddingFunction implements EmbeddingFunction {
+  readonly provider: string;
+  readonly modelId: string; // `${api}/${model}@${server}`: the same model name on another server may differ
+  dimensions?: number;
+  private api: 'openai' | 'ollama';
+  private baseUrl: string;
+  private model: string;
+  private headers: Record<string, string>;
+  private options: HttpEmbeddingOptions;
+
+  constructor(options: HttpEmbeddingOptions = {}) {
+    this.api = options.api || 'openai';
+    if (!(this.api in HTTP_DEFAULTS)) {
+      throw new Error(`Unknown embedding API: ${this.api} (use openai or ollama)`);
+    }
+
+    const defaults = HTTP_DEFAULTS[this.api];
+    this.baseUrl = (options.baseUrl || defaults.baseUrl).replace(/\/+$/, '');
+    this.model = options.model || defaults.model;
+    this.headers = {
+      'Content-Type': 'application/json',
+      ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      ...options.headers,
+    };
+    this.options = options;
+    this.provider = this.api;
+    this.modelId = `${this.api}/${this.model}@${serverId(this.api, this.baseUrl)}`;
+    this.dimensions = options.dimensions ?? HTTP_MODEL_DIMENSIONS[`${this.api}/${this.model}`];
+  }
+
+  /**
+   * Note the vector length from the first response, if it wasn't known
+   */
+  private learnDimensions(embedding: number[] | undefined): void {
+    if (this.dimensions === undefined && embedding) {
+      this.dimensions = embedding.length;
+    }
+  }
+
+  private endpoint(): string {
+    if (this.api === 'ollama') {
+      return `${this.baseUrl}/api/embeddings`;
+    }
+    return this.baseUrl.endsWith('/v1')
+      ? `${this.baseUrl}/embeddings`
+      : `${this.baseUrl}/v1/embeddings`;
+  }
+
+  /**
+   * POST a JSON body, retrying transient failures
+   * Errors carry the HTTP status so isTransientError can classify them
+   */
+  private async post(body: object): Promise<any> {
+    const url = this.endpoint();
+
+    return withRetry(async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? 60000),
+      });
+
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 500);
+        throw Object.assign(
+          new Error(`${url} returned ${response.status} ${response.statusText}: ${detail}`),
+          { status: response.status }
+        );
+      }
+
+      return response.json();
+    }, this.options);
+  }
+
+  private async embedOpenAI(texts: string[]): Promise<number[][]> {
+    const result = await this.post({ model: this.model, input: texts });
+    if (!Array.isArray(result?.data) || result.data.length !== texts.length) {
+      throw new Error(`Unexpected response from ${this.endpoint()}: expected ${texts.length} embeddings`);
+    }
+
+    // Entries carry their input index; don't rely on response order
+    const embeddings: number[][] = [...result.data]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((d: { embedding: number[] }) => d.embedding);
+    this.learnDimensions(embeddings[0]);
+    return embeddings;
+  }
+
+  private async embedOllama(text: string): Promise<number[]> {
+    const result = await this.post({ model: this.model, prompt: text });
+    if (!Array.isArray(result?.embedding)) {
+      throw new Error(`Unexpected response from ${this.endpoint()}: missing embedding`);
+    }
+    this.learnDimensions(result.embedding);
+    return result.embedding;
+  }
+
+  /**
+   * Generate embeddings for a text string
+   * @param text - Text to embed
+   * @returns Embedding vector (length depends on the server's model)
+   */
+  async generate(text: string): Promise<number[]> {
+    try {
+      return this.api === 'ollama'
+        ? await this.embedOllama(text)
+        : (await this.embedOpenAI([text]))[0];
+    } catch (error) {
+      console.error('Error generating embedding:', error);
+      throw new Error(`Failed to generate embedding: ${error}`);
+    }
+  }
+
+  /**
+   * Generate embeddings for many texts
+   * @param texts - Texts to embed
+   * @param onProgress - Called after each request completes
+   * @returns Embedding vectors in input order
+   */
+  async generateBatch(
+    texts: string[],
+    onProgress?: EmbeddingProgressCallback
+  ): Promise<number[][]> {
+    const { concurrency = DEFAULT_CONCURRENCY } = this.options;
+    const batchSize = this.api === 'ollama' ? 1 : this.options.batchSize || 64;
+
+    const batches: string[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      batches.push(texts.slice(i, i + batchSize));
+    }
+
+    let completed = 0;
+    try {
+      const results = await mapWithConcurrency(batches, concurrency, async batch => {
+        const embeddings = this.api === 'ollama'
+          ? [await this.embedOllama(batch[0])]
+          : await this.embedOpenAI(batch);
+
+        completed += batch.length;
+        onProgress?.(completed, texts.length);
+        return embeddings;
+      });
+
+      return results.flat();
+    } catch (error) {
+      console.error('Error generating embeddings:', error);
+      throw new Error(`Failed to generate embeddings: ${error}`);
+    }
+  }
+}
+
+export interface EmbeddingProviderOptions {
+  apiKey?: string; // Key for the chosen provider only (env fallback: GOOGLE_GENERATIVE_AI_API_KEY for google, EMBEDDING_API_KEY/OPENAI_API_KEY for HTTP)
+  baseUrl?: string; // HTTP providers only
+  model?: string; // HTTP providers only
+  dimensions?: number; // HTTP providers only, for models not known by name
+  headers?: Record<string, string>; // HTTP providers only
+  batchSize?: number;
+}
+
+/**
+ * Read provider options from EMBEDDING_* environment variables
+ * API keys are left to each provider, so one provider's key is never
+ * sent to another's server.
+ */
+function embeddingOptionsFromEnv(): EmbeddingProviderOptions {
+  const {
+    EMBEDDING_BASE_URL,
+    EMBEDDING_MODEL,
+    EMBEDDING_DIMENSIONS,
+    EMBEDDING_HEADERS,
+    EMBEDDING_BATCH_SIZE,
+  } = process.env;
+
+  let headers: Record<string, string> | undefined;
+  if (EMBEDDING_HEADERS) {
+    try {
+      headers = JSON.parse(EMBEDDING_HEADERS);
+    } catch {
+      throw new Error('EMBEDDING_HEADERS must be a JSON object, e.g. {"X-Api-Key": "..."}');
+    }
+  }
+
+  return {
+    baseUrl: EMBEDDING_BASE_URL,
+    model: EMBEDDING_MODEL,
+    dimensions: EMBEDDING_DIMENSIONS ? parseInt(EMBEDDING_DIMENSIONS, 10) : undefined,
+    headers,
+    batchSize: EMBEDDING_BATCH_SIZE ? parseInt(EMBEDDING_BATCH_SIZE, 10) : undefined,
+  };
+}
+
+export interface EmbeddingProviderInfo {
+  name: string; // Value of EMBEDDING_PROVIDER
+  description: string;
+  modelId?: string; // Fixed model, if the provider has one
+  dimensions?: number; // Known vector length (otherwise detected from the first embedding)
+  create(options: EmbeddingProviderOptions): EmbeddingFunction;
+}
+
+const embeddingProviders = new Map<string, EmbeddingProviderInfo>();
+
+/**
+ * Register an embedding provider so it can be selected by name
+ * Registering an existing name replaces it
+ */
+export function registerEmbeddingProvider(info: EmbeddingProviderInfo): void {
+  embeddingProviders.set(info.name, info);
+}
+
+export function getEmbeddingProvider(name: string): EmbeddingProviderInfo | undefined {
+  return embeddingProviders.get(name);
+}
+
+export function listEmbeddingProviders(): EmbeddingProviderInfo[] {
+  return Array.from(embeddingProviders.values());
+}
+
+registerEmbeddingProvider({
+  name: 'google',
+  description: 'Google AI text-embedding-004 (needs GOOGLE_GENERATIVE_AI_API_KEY)',
+  modelId: 'google/text-embedding-004',
+  dimensions: 768,
+  create: ({ apiKey, batchSize }) => new GoogleAIEmbeddingFunction(apiKey, { batchSize }),
+});
+
+registerEmbeddingProvider({
+  name: 'local',
+  description: 'Offline feature-hashed vectors (no API key or network)',
+  modelId: new HashingEmbeddingFunction().modelId,
+  dimensions: 768,
+  create: () => new HashingEmbeddingFunction(),
+});
+
+// Model and vector length depend on EMBEDDING_MODEL, so these entries
+// declare neither; the function they create reports both
+for (const api of ['openai', 'ollama'] as const) {
+  registerEmbeddingProvider({
+    name: api,
+    description: api === 'openai'
+      ? 'OpenAI-compatible /v1/embeddings server (EMBEDDING_BASE_URL, EMBEDDING_MODEL)'
+      : 'Ollama /api/embeddings server (EMBEDDING_BASE_URL, EMBEDDING_MODEL)',
+    create: options => new HttpEmbeddingFunction({
+      ...options,
+      api,
+      apiKey: options.apiKey ?? process.env.EMBEDDING_API_KEY ??
+        (api === 'openai' ? process.env.OPENAI_API_KEY : undefined),
+    }),
+  });
+}
+
+/**
+ * Create an embedding function by provider name
+ * @param provider - Registered provider name (built in: google, local, openai, ollama); falls back to EMBEDDING_PROVIDER
+ * @param options - Provider settings; unset fields fall back to EMBEDDING_* env vars
+ */
+export function createEmbeddingFunction(
+  provider: EmbeddingProvider | string = process.env.EMBEDDING_PROVIDER || 'google',
+  options: EmbeddingProviderOptions = {}
+): EmbeddingFunction {
+  const info = embeddingProviders.get(provider);
+  if (!info) {
+    const names = Array.from(embeddingProviders.keys()).join(', ');
+    throw new Error(`Unknown embedding provider: ${provider} (use ${names})`);
+  }
+
+  const env = embeddingOptionsFromEnv();
+  return info.create({
+    apiKey: options.apiKey,
+    baseUrl: options.baseUrl ?? env.baseUrl,
+    model: options.model ?? env.model,
+    dimensions: options.dimensions ?? env.dimensions,
+    headers: options.headers ?? env.headers,
+    batchSize: options.batchSize ?? env.batchSize,
+  });
 }
 
 /**
@@ -52,4 +717,4 @@ export class GoogleAIEmbeddingFunction implements EmbeddingFunction {
  */
 export function createDefaultEmbeddingFunction(): EmbeddingFunction {
   return new GoogleAIEmbeddingFunction();
-}
\ No newline at end of file
+}
@@ -0,0 +1,361 @@
+/**
+ * Metadata filter DSL
+ *
+ * Validates the public `where` expression and compiles it into the
+ * Chroma-style `where` / `whereDocument` pair every VectorStore accepts.
+ * Chroma has no `$not`, so negations are pushed down to the leaves
+ * (De Morgan) before compiling. Stores only match a field condition on
+ * documents that have the field, and there is no "field is missing"
+ * condition, so `$not` is not a full complement: `$not: { priority:
+ * { $gte: 80 } }` becomes `priority < 80` and leaves out documents
+ * without a priority. The same goes for `$ne` and `$nin`.
+ */
+
+import type {
+  FilterValue,
+  MetadataFilter,
+  QueryFilters,
+  StoreWhere,
+  StoreWhereDocument,
+} from './types';
+
+// Stores can't range-compare ISO strings or search inside the comma-joined
+// tags string, so filterable copies are stored next to the originals:
+// lastModified -> lastModifiedTs (epoch ms), tags: ['a'] -> tag_a: true
+export const TIMESTAMP_SUFFIX = 'Ts';
+export const TIMESTAMP_FIELDS = ['lastModified'];
+export const TAG_KEY_PREFIX = 'tag_';
+
+export function tagKey(tag: string): string {
+  return `${TAG_KEY_PREFIX}${tag.trim()}`;
+}
+
+export interface CompiledFilter {
+  where?: StoreWhere;
+  whereDocument?: StoreWhereDocument;
+}
+
+type FieldOperator = '$eq' | '$ne' | '$gt' | '$gte' | '$lt' | '$lte' | '$in' | '$nin';
+
+type FilterNode =
+  | { kind: 'and'; children: FilterNode[] }
+  | { kind: 'or'; children: FilterNode[] }
+  | { kind: 'field'; field: string; op: FieldOperator; value: FilterValue | FilterValue[] }
+  | { kind: 'contains'; text: string; negated: boolean };
+
+const NEGATED_OPERATORS: Record<FieldOperator, FieldOperator> = {
+  $eq: '$ne',
+  $ne: '$eq',
+  $gt: '$lte',
+  $gte: '$lt',
+  $lt: '$gte',
+  $lte: '$gt',
+  $in: '$nin',
+  $nin: '$in',
+};
+
+const COMPARISON_OPERATORS = new Set<FieldOperator>(['$gt', '$gte', '$lt', '$lte']);
+
+function isPrimitive(value: unknown): value is FilterValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(path: string, message: string): Error {
+  return new Error(`Invalid filter at ${path}: ${message}`);
+}
+
+/**
+ * Parse and validate one field condition (`field: value` or `field: { $op: value }`)
+ */
+function parseField(field: string, condition: unknown, path: string): FilterNode {
+  if (isPrimitive(condition)) {
+    return { kind: 'field', field, op: '$eq', value: condition };
+  }
+
+  if (!isPlainObject(condition) || Object.keys(condition).length === 0) {
+    throw invalid(path, 'expected a string, number, boolean or operator object');
+  }
+
+  const children: FilterNode[] = Object.entries(condition).map(([op, value]) => {
+    const opPath = `${path}.${op}`;
+
+    if (!(op in NEGATED_OPERATORS)) {
+      throw invalid(opPath, `unknown operator (use ${Object.keys(NEGATED_OPERATORS).join(', ')})`);
+    }
+
+    if (op === '$in' || op === '$nin') {
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isPrimitive)) {
+        throw invalid(opPath, 'expected a non-empty array of strings, numbers or booleans');
+      }
+    } else if (COMPARISON_OPERATORS.has(op as FieldOperator)) {
+      const isDate = TIMESTAMP_FIELDS.includes(field) && typeof value === 'string';
+      if (typeof value !== 'number' && !isDate) {
+        throw invalid(opPath, 'expected a number');
+      }
+    } else if (!isPrimitive(value)) {
+      throw invalid(opPath, 'expected a string, number or boolean');
+    }
+
+    return { kind: 'field', field, op: op as FieldOperator, value };
+  });
+
+  return children.length === 1 ? children[0] : { kind: 'and', children };
+}
+
+/**
+ * Parse and validate a filter expression into a tree
+ */
+function parse(filter: unknown, path = 'where'): FilterNode {
+  if (!isPlainObject(filter)) {
+    throw invalid(path, 'expected an object');
+  }
+
+  const children: FilterNode[] = [];
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+    const keyPath = `${path}.${key}`;
+
+    switch (key) {
+      case '$and':
+      case '$or': {
+        if (!Array.isArray(value) || value.length === 0) {
+          throw invalid(keyPath, 'expected a non-empty array of filters');
+        }
+        children.push({
+          kind: key === '$and' ? 'and' : 'or',
+          children: value.map((child, i) => parse(child, `${keyPath}[${i}]`)),
+        });
+        break;
+      }
+
+      case '$not': {
+        const inner = parse(value, keyPath);
+        if (inner.kind === 'and' && inner.children.length === 0) {
+          throw invalid(keyPath, 'cannot negate an empty filter');
+        }
+        children.push(negate(inner));
+        break;
+      }
+
+      case '$contains': {
+        if (typeof value !== 'string' || value.length === 0) {
+          throw invalid(keyPath, 'expected a non-empty string');
+        }
+        children.push({ kind: 'contains', text: value, negated: false });
+        break;
+      }
+
+      default: {
+        if (key.startsWith('$')) {
+          throw invalid(keyPath, 'unknown operator (use $and, $or, $not, $contains or a field name)');
+        }
+        children.push(parseField(key, value, keyPath));
+      }
+    }
+  }
+
+  // Several keys in one object are an implicit $and
+  return children.length === 1 ? children[0] : { kind: 'and', children };
+}
+
+/**
+ * Push a negation down to the leaves
+ */
+function negate(node: FilterNode): FilterNode {
+  switch (node.kind) {
+    case 'and':
+      return { kind: 'or', children: node.children.map(negate) };
+    case 'or':
+      return { kind: 'and', children: node.children.map(negate) };
+    case 'contains':
+      return { ...node, negated: !node.negated };
+    case 'field':
+      return { ...node, op: NEGATED_OPERATORS[node.op] };
+  }
+}
+
+/**
+ * Join conditions with a logical operator (Chroma requires 2+ operands)
+ */
+function combine<T>(op: '$and' | '$or', conditions: T[]): T | undefined {
+  if (conditions.length === 0) return undefined;
+  if (conditions.length === 1) return conditions[0];
+  return { [op]: conditions } as T;
+}
+
+function toTimestamp(value: FilterValue, field: string): number {
+  const timestamp = typeof value === 'number' ? value : new Date(String(value)).getTime();
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid filter: ${field} value "${value}" is not a date`);
+  }
+  return timestamp;
+}
+
+/**
+ * Map a field condition onto the stored metadata shape
+ */
+function compileField(node: Extract<FilterNode, { kind: 'field' }>): StoreWhere {
+  const { field, op } = node;
+  let { value } = node;
+
+  if (field === 'tags') {
+    const tags = op === '$eq' ? [value] : op === '$in' ? (value as FilterValue[]) : null;
+    if (!tags) {
+      throw new Error('Invalid filter: tags supports only equality and $in (negated tag filters are not supported)');
+    }
+    return combine('$or', tags.map(tag => ({ [tagKey(String(tag))]: true })))!;
+  }
+
+  let key = field;
+  if (TIMESTAMP_FIELDS.includes(field)) {
+    key = `${field}${TIMESTAMP_SUFFIX}`;
+    value = Array.isArray(value)
+      ? value.map(v => toTimestamp(v, field))
+      : toTimestamp(value, field);
+  }
+
+  return op === '$eq' ? { [key]: value } : { [key]: { [op]: value } };
+}
+
+function compileNode(node: FilterNode): CompiledFilter {
+  switch (node.kind) {
+    case 'field':
+      return { where: compileField(node) };
+
+    case 'contains':
+      return {
+        whereDocument: node.negated ? { $not_contains: node.text } : { $contains: node.text },
+      };
+
+    case 'and': {
+      const compiled = node.children.map(compileNode);
+      return {
+        where: combine('$and', compiled.map(c => c.where).filter((w): w is StoreWhere => !!w)),
+        whereDocument: combine(
+          '$and',
+          compiled.map(c => c.whereDocument).filter((w): w is StoreWhereDocument => !!w)
+        ),
+      };
+    }
+
+    case 'or': {
+      const compiled = node.children.map(compileNode);
+
+      // An empty branch matches everything, so the whole $or does
+      if (compiled.some(c => !c.where && !c.whereDocument)) return {};
+
+      // Stores AND `where` with `whereDocument`, so an $or can't span both
+      if (compiled.every(c => c.where && !c.whereDocument)) {
+        return { where: combine('$or', compiled.map(c => c.where!)) };
+      }
+      if (compiled.every(c => c.whereDocument && !c.where)) {
+        return { whereDocument: combine('$or', compiled.map(c => c.whereDocument!)) };
+      }
+      throw new Error('Invalid filter: $or cannot mix $contains with metadata conditions');
+    }
+  }
+}
+
+/**
+ * Validate a filter expression and compile it for the store
+ * @param filter - Public filter expression (undefined = match all)
+ * @returns Store where/whereDocument clauses
+ * @throws If the expression is malformed or can't be expressed by the store
+ */
+export function compileFilter(filter?: MetadataFilter): CompiledFilter {
+  if (filter === undefined) return {};
+  return compileNode(parse(filter));
+}
+
+/**
+ * Express the QueryFilters shorthands (category, tags, dateRange, ...)
+ * in the filter DSL and AND them with any `where` expression
+ */
+export function toFilterExpression(filters: QueryFilters): MetadataFilter | undefined {
+  const { category, source, tags, dateRange, where } = filters;
+
+  const conditions: MetadataFilter[] = [];
+  if (category) conditions.push({ category });
+  if (source) conditions.push({ source });
+  if (tags && tags.length > 0) conditions.push({ tags: { $in: tags } });
+  if (dateRange?.start) conditions.push({ lastModified: { $gte: dateRange.start.getTime() } });
+  if (dateRange?.end) conditions.push({ lastModified: { $lte: dateRange.end.getTime() } });
+  if (where) conditions.push(where);
+
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+/**
+ * Coerce an inline token value: numbers and booleans, else string
+ */
+function coerceValue(raw: string): FilterValue {
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return Number(raw);
+  return raw;
+}
+
+/**
+ * Parse a filter given on the command line
+ *
+ * Accepts JSON (`{"category": {"$in": ["design"]}}`) or space-separated
+ * `key:value` tokens that are ANDed together:
+ *   category:design,architecture   -> category is design or architecture
+ *   category:!archive              -> category is not archive (!a,b = none of)
+ *   priority:>=80                  -> also >, <, <=
+ *   content:"error code"           -> content contains the text (content:!x = does not)
+ */
+export function parseFilterExpression(input: string): MetadataFilter {
+  const trimmed = input.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Invalid filter JSON: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const tokens = trimmed.match(/(?:[^\s"]+|"[^"]*")+/g) || [];
+  const conditions: MetadataFilter[] = tokens.map(token => {
+    const separator = token.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid filter token "${token}": expected key:value`);
+    }
+
+    const key = token.slice(0, separator);
+    let raw = token.slice(separator + 1).replace(/"/g, '');
+    const negated = raw.startsWith('!');
+    if (negated) raw = raw.slice(1);
+
+    if (!raw) {
+      throw new Error(`Invalid filter token "${token}": missing value`);
+    }
+
+    if (key === 'content') {
+      return negated ? { $not: { $contains: raw } } : { $contains: raw };
+    }
+
+    const comparison = raw.match(/^(>=|<=|>|<)(.+)$/);
+    if (comparison && !negated) {
+      const op = { '>=': '$gte', '<=': '$lte', '>': '$gt', '<': '$lt' }[comparison[1]]!;
+      return { [key]: { [op]: coerceValue(comparison[2]) } };
+    }
+
+    if (raw.includes(',')) {
+      const values = raw.split(',').filter(Boolean).map(coerceValue);
+      return { [key]: { [negated ? '$nin' : '$in']: values } };
+    }
+
+    return { [key]: negated ? { $ne: coerceValue(raw) } : coerceValue(raw) };
+  });
+
+  if (conditions.length === 0) return {};
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
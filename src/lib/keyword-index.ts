@@ -0,0 +1,146 @@
+/**
+ * BM25 keyword index
+ *
+ * Embeddings are good at paraphrase but poor at exact identifiers
+ * (`searchByCategory`, env var names, error codes). This index is kept
+ * alongside the collection so queries can also rank by term matches.
+ */
+
+export interface KeywordMatch {
+  id: string;
+  score: number; // Raw BM25 score (unbounded, higher = better)
+}
+
+/**
+ * Split text into lowercase search terms
+ * Identifiers are kept whole and also split into their parts, so
+ * `searchByCategory` matches both itself and "category"
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = text.match(/[A-Za-z0-9_$]+/g) || [];
+
+  for (const word of words) {
+    const lower = word.toLowerCase();
+    tokens.push(lower);
+
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .filter(Boolean)
+      .map(p => p.toLowerCase());
+
+    if (parts.length > 1) {
+      tokens.push(...parts);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * In-memory BM25 index over document IDs
+ */
+export class KeywordIndex {
+  private termFrequencies = new Map<string, Map<string, number>>();
+  private documentFrequencies = new Map<string, number>();
+  private documentLengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(
+    private k1 = 1.2,
+    private b = 0.75
+  ) {}
+
+  get size(): number {
+    return this.documentLengths.size;
+  }
+
+  has(id: string): boolean {
+    return this.documentLengths.has(id);
+  }
+
+  /**
+   * Index a document, replacing any previous version with the same ID
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    for (const term of frequencies.keys()) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+    }
+
+    this.termFrequencies.set(id, frequencies);
+    this.documentLengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const frequencies = this.termFrequencies.get(id);
+    if (!frequencies) return;
+
+    for (const term of frequencies.keys()) {
+      const df = (this.documentFrequencies.get(term) || 1) - 1;
+      if (df > 0) {
+        this.documentFrequencies.set(term, df);
+      } else {
+        this.documentFrequencies.delete(term);
+      }
+    }
+
+    this.totalLength -= this.documentLengths.get(id) || 0;
+    this.termFrequencies.delete(id);
+    this.documentLengths.delete(id);
+  }
+
+  clear(): void {
+    this.termFrequencies.clear();
+    this.documentFrequencies.clear();
+    this.documentLengths.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Rank documents against a query
+   * @param query - Free text query
+   * @param limit - Maximum number of matches (default: all)
+   * @returns Matches with a positive score, best first
+   */
+  search(query: string, limit?: number): KeywordMatch[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const n = this.size;
+    if (terms.length === 0 || n === 0) return [];
+
+    const averageLength = this.totalLength / n;
+    const matches: KeywordMatch[] = [];
+
+    for (const [id, frequencies] of this.termFrequencies) {
+      const length = this.documentLengths.get(id) || 0;
+      let score = 0;
+
+      for (const term of terms) {
+        const tf = frequencies.get(term);
+        if (!tf) continue;
+
+        const df = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (this.k1 + 1)) /
+          (tf + this.k1 * (1 - this.b + this.b * (length / averageLength)));
+      }
+
+      if (score > 0) {
+        matches.push({ id, score });
+      }
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return limit !== undefined ? matches.slice(0, limit) : matches;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Ranking helpers for combining, scoring and reordering search results
+ */
+
+import type { DocumentMetadata, ScoringFunction, ScoringOptions } from './types';
+
+export const DEFAULT_SCORING: Required<ScoringOptions> = {
+  similarityWeight: 0.8,
+  priorityWeight: 0.15,
+  recencyWeight: 0.05,
+  recencyHalfLifeDays: 180,
+};
+
+// Documents without metadata.priority score like ingest-docs' default (60)
+const DEFAULT_PRIORITY = 60;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Reciprocal rank fusion
+ * Combines several ranked ID lists into one score per ID. Only ranks
+ * matter, so lists with incomparable scores (cosine vs BM25) can be fused.
+ * @param rankings - Ranked ID lists, best first
+ * @param k - Damping constant (60 is the value from the original paper)
+ * @returns Fused score per ID, normalized so a first place in every list scores 1
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+  k = 60
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  if (rankings.length === 0) return scores;
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + rank + 1));
+    });
+  }
+
+  const maxScore = rankings.length / (k + 1);
+  for (const [id, score] of scores) {
+    scores.set(id, score / maxScore);
+  }
+
+  return scores;
+}
+
+/**
+ * Cosine similarity between two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export interface RerankCandidate {
+  id: string;
+  score: number; // Relevance to the query (0-1)
+  embedding?: number[];
+  group?: string; // Candidates sharing a group count toward maxPerGroup
+}
+
+/**
+ * Maximal marginal relevance selection
+ * Greedily picks the candidate that best balances relevance against
+ * similarity to what was already picked, so near-duplicate chunks
+ * (e.g. overlapping chunks of one file) don't crowd out other sources.
+ * @param candidates - Candidates in any order
+ * @param limit - Number of candidates to select
+ * @param diversity - 0 = pure relevance, 1 = pure novelty
+ * @param maxPerGroup - Optional cap on selections sharing a group
+ * @returns Selected candidates in pick order
+ */
+export function maximalMarginalRelevance<T extends RerankCandidate>(
+  candidates: T[],
+  limit: number,
+  diversity = 0,
+  maxPerGroup?: number
+): T[] {
+  const lambda = 1 - diversity;
+  const remaining = [...candidates];
+  const selected: T[] = [];
+  const groupCounts = new Map<string, number>();
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestValue = -Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const candidate = remaining[i];
+
+      if (maxPerGroup !== undefined && candidate.group !== undefined &&
+          (groupCounts.get(candidate.group) || 0) >= maxPerGroup) {
+        continue;
+      }
+
+      let maxSimilarity = 0;
+      if (diversity > 0 && candidate.embedding) {
+        for (const picked of selected) {
+          if (picked.embedding) {
+            maxSimilarity = Math.max(maxSimilarity, cosineSimilarity(candidate.embedding, picked.embedding));
+          }
+        }
+      }
+
+      const value = lambda * candidate.score - (1 - lambda) * maxSimilarity;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    }
+
+    // Everything left is over its group cap
+    if (bestIndex === -1) break;
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    selected.push(picked);
+    if (picked.group !== undefined) {
+      groupCounts.set(picked.group, (groupCounts.get(picked.group) || 0) + 1);
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Recency factor: 1 for a document modified now, halving every half-life
+ * Documents without a valid lastModified get a neutral 0.5
+ */
+export function recencyDecay(
+  metadata: DocumentMetadata,
+  halfLifeDays: number,
+  now = Date.now()
+): number {
+  if (metadata.lastModified === undefined) return 0.5;
+
+  const modified = new Date(metadata.lastModified).getTime();
+  if (Number.isNaN(modified)) return 0.5;
+
+  const ageDays = Math.max(0, (now - modified) / MS_PER_DAY);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Build a scorer that blends similarity, priority and recency
+ * @param options - Weights and half-life (missing values use DEFAULT_SCORING)
+ * @returns Scoring function returning a 0-1 score
+ */
+export function createScoringFunction(options: ScoringOptions = {}): ScoringFunction {
+  const {
+    similarityWeight = DEFAULT_SCORING.similarityWeight,
+    priorityWeight = DEFAULT_SCORING.priorityWeight,
+    recencyWeight = DEFAULT_SCORING.recencyWeight,
+    recencyHalfLifeDays = DEFAULT_SCORING.recencyHalfLifeDays,
+  } = options;
+
+  const totalWeight = similarityWeight + priorityWeight + recencyWeight;
+  if (totalWeight <= 0) {
+    throw new Error('Scoring weights must add up to more than 0');
+  }
+  if (recencyHalfLifeDays <= 0) {
+    throw new Error('recencyHalfLifeDays must be greater than 0');
+  }
+
+  const now = Date.now();
+
+  return (result) => {
+    const rawPriority = Number(result.metadata.priority ?? DEFAULT_PRIORITY);
+    const priority = Number.isNaN(rawPriority)
+      ? DEFAULT_PRIORITY / 100
+      : Math.min(Math.max(rawPriority / 100, 0), 1);
+    const recency = recencyDecay(result.metadata, recencyHalfLifeDays, now);
+
+    return (
+      similarityWeight * result.similarity +
+      priorityWeight * priority +
+      recencyWeight * recency
+    ) / totalWeight;
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Snapshot catalog
+ *
+ * A snapshot directory holds a chain of backups per collection: full
+ * snapshots, plus incremental (changes since the previous snapshot) and
+ * differential (changes since the last full one) snapshots on top. Each
+ * snapshot stores a content hash per document so the next one can tell
+ * what was added, changed or deleted. `snapshots.json` lists them all.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import crypto from 'crypto';
+import type {
+  RetentionPolicy,
+  SnapshotInfo,
+  SnapshotType,
+  VectorDocument,
+} from './types';
+
+const MANIFEST_FILE = 'snapshots.json';
+
+interface Manifest {
+  snapshots: SnapshotInfo[];
+}
+
+/**
+ * Hash of what a snapshot restores for a document (content and metadata)
+ */
+export function documentHash(doc: VectorDocument): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([doc.content, doc.metadata]))
+    .digest('hex');
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Monday of the (UTC) week
+function weekKey(date: Date): string {
+  const monday = new Date(date);
+  monday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return dayKey(monday);
+}
+
+export class SnapshotCatalog {
+  constructor(readonly dir: string) {}
+
+  private read(): Manifest {
+    const manifestPath = path.join(this.dir, MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) return { snapshots: [] };
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  }
+
+  private write(manifest: Manifest): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const manifestPath = path.join(this.dir, MANIFEST_FILE);
+    const tmpPath = `${manifestPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(manifest, null, 2));
+    fs.renameSync(tmpPath, manifestPath);
+  }
+
+  private statePath(id: string): string {
+    return path.join(this.dir, `${id}.state.json`);
+  }
+
+  /**
+   * Snapshots, oldest first
+   * @param collection - Only this collection's snapshots
+   */
+  list(collection?: string): SnapshotInfo[] {
+    return this.read().snapshots
+      .filter(s => !collection || s.collection === collection)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  get(id: string): SnapshotInfo | undefined {
+    return this.read().snapshots.find(s => s.id === id);
+  }
+
+  /**
+   * Newest snapshot of a collection, optionally of one type
+   */
+  latest(collection: string, type?: SnapshotType): SnapshotInfo | undefined {
+    return this.list(collection).filter(s => !type || s.type === type).pop();
+  }
+
+  /**
+   * Snapshot to restore for a point in time
+   * @param at - Snapshot ID, or a date (newest snapshot at or before it); default: newest
+   * @throws If `at` is a snapshot of another collection
+   */
+  resolve(collection: string, at?: string | Date): SnapshotInfo {
+    if (typeof at === 'string') {
+      const byId = this.get(at);
+      if (byId) {
+        // Restoring another collection's snapshot would copy its documents over
+        if (byId.collection !== collection) {
+          throw new Error(`Snapshot ${at} is of collection ${byId.collection}, not ${collection}`);
+        }
+        return byId;
+      }
+    }
+
+    const snapshots = this.list(collection);
+    if (snapshots.length === 0) {
+      throw new Error(`No snapshots of ${collection} in ${this.dir}`);
+    }
+    if (at === undefined) return snapshots[snapshots.length - 1];
+
+    const time = new Date(at).getTime();
+    if (Number.isNaN(time)) {
+      throw new Error(`Unknown snapshot or invalid date: ${at}`);
+    }
+
+    const match = snapshots.filter(s => new Date(s.createdAt).getTime() <= time).pop();
+    if (!match) {
+      throw new Error(`No snapshot of ${collection} at or before ${new Date(time).toISOString()}`);
+    }
+    return match;
+  }
+
+  /**
+   * Snapshots to replay to restore one, full snapshot first
+   */
+  chain(id: string): SnapshotInfo[] {
+    const chain: SnapshotInfo[] = [];
+    for (let current = this.get(id); current; current = current.parent ? this.get(current.parent) : undefined) {
+      chain.unshift(current);
+      if (current.type === 'full') return chain;
+    }
+    throw new Error(`Snapshot chain for ${id} is broken: its full snapshot is missing`);
+  }
+
+  /**
+   * Unused snapshot ID for a collection
+   */
+  newId(collection: string, type: SnapshotType, date = new Date()): string {
+    const stamp = date.toISOString().replace(/\D/g, '').slice(0, 14);
+    const base = `${collection}-${stamp}-${type}`;
+
+    let id = base;
+    for (let i = 2; this.get(id); i++) {
+      id = `${base}-${i}`;
+    }
+    return id;
+  }
+
+  filePath(snapshot: SnapshotInfo): string {
+    return path.join(this.dir, snapshot.file);
+  }
+
+  /**
+   * Content hash per document ID as of a snapshot
+   */
+  readState(id: string): Map<string, string> {
+    const statePath = this.statePath(id);
+    if (!fs.existsSync(statePath)) {
+      throw new Error(`Snapshot state missing for ${id}; take a full snapshot`);
+    }
+    return new Map(Object.entries(JSON.parse(fs.readFileSync(statePath, 'utf-8'))));
+  }
+
+  /**
+   * Record a snapshot whose backup file has been written
+   */
+  add(snapshot: SnapshotInfo, state: Map<string, string>): void {
+    fs.writeFileSync(this.statePath(snapshot.id), JSON.stringify(Object.fromEntries(state)));
+
+    const manifest = this.read();
+    manifest.snapshots.push(snapshot);
+    this.write(manifest);
+  }
+
+  /**
+   * Delete snapshots outside the retention policy
+   * @param dryRun - Only report what would be deleted
+   * @returns Snapshots deleted (or that would be)
+   */
+  prune(collection: string, policy: RetentionPolicy = {}, dryRun = false): SnapshotInfo[] {
+    const { daily = 7, weekly = 4 } = policy;
+    const newestFirst = this.list(collection).reverse();
+    if (newestFirst.length === 0) return [];
+
+    const keep = new Set<string>([newestFirst[0].id]);
+    const keepNewestPer = (keyOf: (date: Date) => string, limit: number) => {
+      const seen = new Set<string>();
+      for (const snapshot of newestFirst) {
+        const key = keyOf(new Date(snapshot.createdAt));
+        if (seen.has(key)) continue;
+        if (seen.size >= limit) break;
+        seen.add(key);
+        keep.add(snapshot.id);
+      }
+    };
+    keepNewestPer(dayKey, daily);
+    keepNewestPer(weekKey, weekly);
+
+    // A kept snapshot is only restorable with the snapshots it builds on
+    for (const id of Array.from(keep)) {
+      for (const snapshot of this.chain(id)) keep.add(snapshot.id);
+    }
+
+    const removed = newestFirst.filter(s => !keep.has(s.id));
+    if (dryRun || removed.length === 0) return removed;
+
+    for (const snapshot of removed) {
+      fs.rmSync(this.filePath(snapshot), { force: true });
+      fs.rmSync(this.statePath(snapshot.id), { force: true });
+    }
+
+    const removedIds = new Set(removed.map(s => s.id));
+    const manifest = this.read();
+    manifest.snapshots = manifest.snapshots.filter(s => !removedIds.has(s.id));
+    this.write(manifest);
+
+    return removed;
+  }
+}
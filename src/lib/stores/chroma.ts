@@ -0,0 +1,230 @@
+/**
+ * ChromaDB storage backend
+ * Talks to a running `chroma run` server over HTTP
+ */
+
+import { ChromaClient, Collection, IncludeEnum } from 'chromadb';
+import type {
+  StoredMetadata,
+  StoredRecord,
+  StoreMatch,
+  StoreGetOptions,
+  StoreQueryOptions,
+  VectorStore,
+  VectorStoreBackend,
+} from '../types';
+import { cosineSimilarity } from '../ranking';
+
+/**
+ * A single Chroma collection
+ */
+export class ChromaVectorStore implements VectorStore {
+  constructor(
+    private client: ChromaClient,
+    private collection: Collection
+  ) {}
+
+  get name(): string {
+    return this.collection.name;
+  }
+
+  async add(records: StoredRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    await this.collection.add({
+      ids: records.map(r => r.id),
+      documents: records.map(r => r.content),
+      embeddings: records.map(r => r.embedding!),
+      metadatas: records.map(r => r.metadata),
+    });
+  }
+
+  async update(records: StoredRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    // Chroma only accepts embeddings for all records or none
+    const hasEmbeddings = records.every(r => r.embedding);
+
+    await this.collection.update({
+      ids: records.map(r => r.id),
+      documents: records.map(r => r.content),
+      embeddings: hasEmbeddings ? records.map(r => r.embedding!) : undefined,
+      metadatas: records.map(r => r.metadata),
+    });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.collection.delete({ ids });
+  }
+
+  async get(options: StoreGetOptions = {}): Promise<StoredRecord[]> {
+    const include = [IncludeEnum.documents, IncludeEnum.metadatas];
+    if (options.includeEmbeddings) include.push(IncludeEnum.embeddings);
+
+    const results = await this.collection.get({
+      ids: options.ids,
+      where: options.where,
+      whereDocument: options.whereDocument,
+      limit: options.limit,
+      offset: options.offset,
+      include,
+    });
+
+    const records: StoredRecord[] = [];
+    for (let i = 0; i < results.ids.length; i++) {
+      records.push({
+        id: results.ids[i],
+        content: results.documents[i] || '',
+        metadata: (results.metadatas?.[i] as StoredMetadata) || {},
+        embedding: results.embeddings?.[i],
+      });
+    }
+    return records;
+  }
+
+  /**
+   * Distance function of the collection's index
+   * Collections created before the cosine default (or by other tools) may
+   * use Chroma's default, squared L2.
+   */
+  private get space(): string {
+    const { configuration, metadata } = this.collection;
+    return configuration?.hnsw?.space
+      ?? configuration?.spann?.space
+      ?? (metadata?.['hnsw:space'] as string | undefined)
+      ?? 'l2';
+  }
+
+  async query(embedding: number[], options: StoreQueryOptions): Promise<StoreMatch[]> {
+    // Outside cosine space the server's distances aren't 1 - similarity, so
+    // fetch the embeddings and recompute them
+    const recompute = this.space !== 'cosine';
+
+    const include = [IncludeEnum.documents, IncludeEnum.metadatas, IncludeEnum.distances];
+    if (options.includeEmbeddings || recompute) include.push(IncludeEnum.embeddings);
+
+    const results = await this.collection.query({
+      queryEmbeddings: [embedding],
+      nResults: options.nResults,
+      where: options.where,
+      whereDocument: options.whereDocument,
+      include,
+    });
+
+    const matches: StoreMatch[] = [];
+    const ids = results.ids[0] || [];
+    for (let i = 0; i < ids.length; i++) {
+      matches.push({
+        id: ids[i],
+        content: results.documents[0]?.[i] || '',
+        metadata: (results.metadatas?.[0]?.[i] as StoredMetadata) || {},
+        embedding: results.embeddings?.[0]?.[i] || undefined,
+        distance: results.distances?.[0]?.[i] ?? 1,
+      });
+    }
+
+    if (recompute) {
+      for (const match of matches) {
+        if (match.embedding) match.distance = 1 - cosineSimilarity(embedding, match.embedding);
+        if (!options.includeEmbeddings) delete match.embedding;
+      }
+      matches.sort((a, b) => a.distance - b.distance);
+    }
+    return matches;
+  }
+
+  async count(): Promise<number> {
+    return this.collection.count();
+  }
+
+  async drop(): Promise<void> {
+    await this.client.deleteCollection({ name: this.collection.name });
+  }
+
+  /**
+   * Re-read the collection from the server
+   * The Collection object keeps the metadata it was opened with, which
+   * goes stale once another process writes to the collection.
+   */
+  private async refresh(): Promise<Collection> {
+    this.collection = await this.client.getCollection({ name: this.collection.name });
+    return this.collection;
+  }
+
+  async getMetadata(): Promise<StoredMetadata> {
+    return ((await this.refresh()).metadata as StoredMetadata) || {};
+  }
+
+  async updateMetadata(metadata: StoredMetadata): Promise<void> {
+    // modify() replaces the whole metadata object, so merge into the current one
+    const collection = await this.refresh();
+    await collection.modify({
+      metadata: { ...collection.metadata, ...metadata },
+    });
+  }
+}
+
+/**
+ * Backend for a ChromaDB server
+ */
+export class ChromaBackend implements VectorStoreBackend {
+  readonly type = 'chroma' as const;
+  private client: ChromaClient;
+
+  constructor(chromaUrl = 'http://localhost:8000') {
+    // Parse the URL to get host and port
+    const url = new URL(chromaUrl);
+    this.client = new ChromaClient({
+      host: url.hostname,
+      port: parseInt(url.port) || 8000,
+      ssl: url.protocol === 'https:'
+    });
+  }
+
+  async openCollection(name: string, metadata?: StoredMetadata): Promise<VectorStore> {
+    // Use getOrCreateCollection for better reliability
+    const collection = await this.client.getOrCreateCollection({
+      name,
+      metadata,
+      // Cosine space so distances match the local backend (similarity = 1 - distance);
+      // only applies when the collection is created, see ChromaVectorStore.query
+      configuration: { hnsw: { space: 'cosine' } },
+    });
+    return new ChromaVectorStore(this.client, collection);
+  }
+
+  async listCollections(): Promise<string[]> {
+    const collections = await this.client.listCollections();
+    return collections.map(c => c.name).sort();
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    const names = await this.listCollections();
+    if (names.includes(name)) {
+      await this.client.deleteCollection({ name });
+    }
+  }
+
+  async renameCollection(from: string, to: string): Promise<void> {
+    const names = await this.listCollections();
+    if (!names.includes(from)) {
+      throw new Error(`Collection not found: ${from}`);
+    }
+
+    // Chroma can't rename onto an existing name, so move the old one aside
+    // first; `to` is missing only between the two renames
+    const replaced = names.includes(to) ? `${to}-replaced-${Date.now()}` : null;
+    if (replaced) {
+      await (await this.client.getCollection({ name: to })).modify({ name: replaced });
+    }
+    await (await this.client.getCollection({ name: from })).modify({ name: to });
+    if (replaced) {
+      await this.client.deleteCollection({ name: replaced });
+    }
+  }
+
+  async heartbeat(): Promise<void> {
+    await this.client.heartbeat();
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Storage backends for ProjectVectorDB
+ */
+
+import { ChromaBackend } from './chroma';
+import { LocalBackend } from './local';
+import type { VectorDBConfig, VectorStoreBackend } from '../types';
+
+export { ChromaBackend, ChromaVectorStore } from './chroma';
+export { LocalBackend, LocalVectorStore } from './local';
+
+/**
+ * Create the storage backend selected in the config
+ */
+export function createVectorStoreBackend(config: VectorDBConfig = {}): VectorStoreBackend {
+  const { backend = 'chroma' } = config;
+
+  switch (backend) {
+    case 'chroma':
+      return new ChromaBackend(config.chromaUrl);
+    case 'local':
+      return new LocalBackend(config.localPath);
+    default:
+      throw new Error(`Unknown vector store backend: ${backend}. Use 'chroma' or 'local'.`);
+  }
+}
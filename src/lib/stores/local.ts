@@ -0,0 +1,304 @@
+/**
+ * Embedded local storage backend
+ *
+ * Keeps each collection in a JSON file under a project directory and
+ * searches it by brute-force cosine similarity. No server process and
+ * no extra dependencies, so the CLI, MCP server and agent SDK can run
+ * on laptops and CI without `chroma run`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  StoredMetadata,
+  StoredRecord,
+  StoreMatch,
+  StoreGetOptions,
+  StoreQueryOptions,
+  StoreWhere,
+  StoreWhereDocument,
+  VectorStore,
+  VectorStoreBackend,
+} from '../types';
+import { cosineSimilarity } from '../ranking';
+
+interface CollectionFile {
+  name: string;
+  metadata: StoredMetadata;
+  records: StoredRecord[];
+}
+
+/**
+ * Evaluate a single field condition (literal or operator expression)
+ * Like Chroma, every operator (including $ne and $nin) only matches
+ * records that have the field.
+ */
+function matchesCondition(value: any, condition: any): boolean {
+  if (condition === null || typeof condition !== 'object') {
+    return value === condition;
+  }
+
+  return Object.entries(condition).every(([op, operand]: [string, any]) => {
+    switch (op) {
+      case '$eq': return value === operand;
+      case '$ne': return value !== undefined && value !== operand;
+      case '$gt': return value !== undefined && value > operand;
+      case '$gte': return value !== undefined && value >= operand;
+      case '$lt': return value !== undefined && value < operand;
+      case '$lte': return value !== undefined && value <= operand;
+      case '$in': return Array.isArray(operand) && operand.includes(value);
+      case '$nin': return value !== undefined && Array.isArray(operand) && !operand.includes(value);
+      default:
+        throw new Error(`Unsupported where operator: ${op}`);
+    }
+  });
+}
+
+/**
+ * Evaluate a Chroma-style where clause against record metadata
+ */
+function matchesWhere(metadata: StoredMetadata, where: StoreWhere): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as StoreWhere[]).every(w => matchesWhere(metadata, w));
+    }
+    if (key === '$or') {
+      return (condition as StoreWhere[]).some(w => matchesWhere(metadata, w));
+    }
+    return matchesCondition(metadata[key], condition);
+  });
+}
+
+/**
+ * Evaluate a Chroma-style whereDocument clause against record content
+ */
+function matchesWhereDocument(content: string, where: StoreWhereDocument): boolean {
+  return Object.entries(where).every(([op, operand]: [string, any]) => {
+    switch (op) {
+      case '$contains': return content.includes(operand);
+      case '$not_contains': return !content.includes(operand);
+      case '$regex': return new RegExp(operand).test(content);
+      case '$not_regex': return !new RegExp(operand).test(content);
+      case '$and':
+        return (operand as StoreWhereDocument[]).every(w => matchesWhereDocument(content, w));
+      case '$or':
+        return (operand as StoreWhereDocument[]).some(w => matchesWhereDocument(content, w));
+      default:
+        throw new Error(`Unsupported whereDocument operator: ${op}`);
+    }
+  });
+}
+
+/**
+ * A single collection persisted as `<dir>/<name>.json`
+ */
+export class LocalVectorStore implements VectorStore {
+  private records = new Map<string, StoredRecord>();
+  private metadata: StoredMetadata = {};
+  private loadedMtime = 0;
+
+  constructor(
+    readonly name: string,
+    private filePath: string
+  ) {}
+
+  /**
+   * Load the collection from disk, creating it if missing
+   * Reloads whenever another process has written the file since
+   */
+  async load(createMetadata: StoredMetadata = {}): Promise<void> {
+    if (!fs.existsSync(this.filePath)) {
+      this.metadata = { ...createMetadata };
+      this.records.clear();
+      this.persist();
+      return;
+    }
+
+    const mtime = fs.statSync(this.filePath).mtimeMs;
+    if (mtime === this.loadedMtime) return;
+
+    const data: CollectionFile = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    this.metadata = data.metadata || {};
+    this.records = new Map(data.records.map(r => [r.id, r]));
+    this.loadedMtime = mtime;
+  }
+
+  /**
+   * Write the collection atomically (temp file + rename)
+   */
+  private persist(): void {
+    const data: CollectionFile = {
+      name: this.name,
+      metadata: this.metadata,
+      records: Array.from(this.records.values()),
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data));
+    fs.renameSync(tmpPath, this.filePath);
+    this.loadedMtime = fs.statSync(this.filePath).mtimeMs;
+  }
+
+  private filter(options: { where?: StoreWhere; whereDocument?: StoreWhereDocument }): StoredRecord[] {
+    const { where, whereDocument } = options;
+    return Array.from(this.records.values()).filter(r =>
+      (!where || matchesWhere(r.metadata, where)) &&
+      (!whereDocument || matchesWhereDocument(r.content, whereDocument))
+    );
+  }
+
+  async add(records: StoredRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.load();
+
+    for (const record of records) {
+      if (this.records.has(record.id)) {
+        throw new Error(`Document already exists: ${record.id}`);
+      }
+      if (!record.embedding) {
+        throw new Error(`Embedding required for document: ${record.id}`);
+      }
+    }
+
+    for (const record of records) {
+      this.records.set(record.id, { ...record });
+    }
+    this.persist();
+  }
+
+  async update(records: StoredRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.load();
+
+    // Like Chroma, unknown IDs are ignored
+    for (const record of records) {
+      const existing = this.records.get(record.id);
+      if (!existing) continue;
+
+      this.records.set(record.id, {
+        ...record,
+        embedding: record.embedding || existing.embedding,
+      });
+    }
+    this.persist();
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.load();
+
+    for (const id of ids) {
+      this.records.delete(id);
+    }
+    this.persist();
+  }
+
+  async get(options: StoreGetOptions = {}): Promise<StoredRecord[]> {
+    await this.load();
+
+    let records = this.filter(options);
+    if (options.ids) {
+      const wanted = new Set(options.ids);
+      records = records.filter(r => wanted.has(r.id));
+    }
+
+    const offset = options.offset || 0;
+    const end = options.limit !== undefined ? offset + options.limit : undefined;
+
+    return records.slice(offset, end).map(r => ({
+      id: r.id,
+      content: r.content,
+      metadata: r.metadata,
+      embedding: options.includeEmbeddings ? r.embedding : undefined,
+    }));
+  }
+
+  async query(embedding: number[], options: StoreQueryOptions): Promise<StoreMatch[]> {
+    await this.load();
+
+    return this.filter(options)
+      .filter(r => r.embedding)
+      .map(r => ({
+        id: r.id,
+        content: r.content,
+        metadata: r.metadata,
+        embedding: options.includeEmbeddings ? r.embedding : undefined,
+        distance: 1 - cosineSimilarity(embedding, r.embedding!),
+      }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, options.nResults);
+  }
+
+  async count(): Promise<number> {
+    await this.load();
+    return this.records.size;
+  }
+
+  async drop(): Promise<void> {
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath);
+    }
+    this.records.clear();
+    this.loadedMtime = 0;
+  }
+
+  async getMetadata(): Promise<StoredMetadata> {
+    await this.load();
+    return { ...this.metadata };
+  }
+
+  async updateMetadata(metadata: StoredMetadata): Promise<void> {
+    await this.load();
+    this.metadata = { ...this.metadata, ...metadata };
+    this.persist();
+  }
+}
+
+/**
+ * Backend storing collections as files in a local directory
+ */
+export class LocalBackend implements VectorStoreBackend {
+  readonly type = 'local' as const;
+
+  constructor(private rootDir = './.vectordb') {}
+
+  private collectionPath(name: string): string {
+    if (!/^[\w.-]+$/.test(name)) {
+      throw new Error(`Invalid collection name: ${name}`);
+    }
+    return path.join(this.rootDir, `${name}.json`);
+  }
+
+  async openCollection(name: string, metadata?: StoredMetadata): Promise<VectorStore> {
+    const store = new LocalVectorStore(name, this.collectionPath(name));
+    await store.load(metadata);
+    return store;
+  }
+
+  async listCollections(): Promise<string[]> {
+    if (!fs.existsSync(this.rootDir)) return [];
+    return fs.readdirSync(this.rootDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length))
+      .sort();
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    fs.rmSync(this.collectionPath(name), { force: true });
+  }
+
+  async renameCollection(from: string, to: string): Promise<void> {
+    const fromPath = this.collectionPath(from);
+    if (!fs.existsSync(fromPath)) {
+      throw new Error(`Collection not found: ${from}`);
+    }
+    // rename() replaces the target atomically
+    fs.renameSync(fromPath, this.collectionPath(to));
+  }
+
+  async heartbeat(): Promise<void> {
+    fs.mkdirSync(this.rootDir, { recursive: true });
+    fs.accessSync(this.rootDir, fs.constants.W_OK);
+  }
+}
@@ -2,6 +2,8 @@
  * Type definitions for the vector database API
  */
 
+import type { EmbeddingCacheOptions } from './embedding-cache';
+
 export interface VectorDocument {
   id: string;
   content: string;
@@ -23,30 +25,163 @@ export interface DocumentMetadata {
 export interface QueryResult {
   content: string;
   metadata: DocumentMetadata;
-  score: number; // Similarity score (0-1, higher = more similar)
+  score: number; // Final score after priority/recency scoring; in hybrid mode the rank fusion score (0-1, higher = better)
+  similarity: number; // Cosine similarity, or normalized BM25 for keyword-only hits (0-1, higher = more similar)
   id: string;
+  context?: string; // The chunk stitched with its neighbors (with expandContext)
+}
+
+/**
+ * Blends raw similarity with document priority and recency
+ * Weights are relative; the final score is normalized back to 0-1
+ */
+export interface ScoringOptions {
+  similarityWeight?: number; // Default: 0.8
+  priorityWeight?: number; // Weight of metadata.priority / 100 (default: 0.15)
+  recencyWeight?: number; // Weight of the lastModified decay (default: 0.05)
+  recencyHalfLifeDays?: number; // Age at which recency counts half (default: 180)
+}
+
+// Custom scorer: receives a result (with raw similarity) and returns its final score
+export type ScoringFunction = (result: QueryResult) => number;
+
+/**
+ * Metadata filter expression
+ * Fields compare against document metadata; `$contains` matches content.
+ * Several keys in one object are ANDed.
+ * e.g. { category: { $in: ['design', 'architecture'] }, priority: { $gte: 80 } }
+ */
+export type FilterValue = string | number | boolean;
+
+export interface FieldOperators {
+  $eq?: FilterValue;
+  $ne?: FilterValue;
+  $gt?: number | string; // Strings only for date fields (lastModified)
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $in?: FilterValue[];
+  $nin?: FilterValue[];
+}
+
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  $not?: MetadataFilter;
+  $contains?: string; // Document content contains this text
+  [field: string]: FilterValue | FieldOperators | MetadataFilter | MetadataFilter[] | undefined;
 }
 
+// semantic = embeddings only, keyword = BM25 only, hybrid = both fused by rank
+export type SearchMode = 'semantic' | 'keyword' | 'hybrid';
+
 export interface QueryOptions {
   limit?: number; // Number of results to return (default: 5)
-  threshold?: number; // Minimum similarity threshold (default: 0.7)
+  threshold?: number; // Minimum similarity threshold for semantic matches (default: 0.7)
+  mode?: SearchMode; // Ranking strategy (default: semantic)
+  diversity?: number; // MMR rerank, 0 = pure relevance to 1 = pure novelty (default: off)
+  maxPerFile?: number; // Cap on results sharing a filePath (default: no cap)
+  scoring?: ScoringOptions | ScoringFunction | false; // false = rank on raw similarity (default: ScoringOptions defaults)
   category?: string; // Filter by category
   source?: string; // Filter by source
-  tags?: string[]; // Filter by tags
+  tags?: string[]; // Filter by tags (matches documents with any of them)
   dateRange?: {
-    start?: Date;
-    end?: Date;
+    start?: Date; // Inclusive, compared against lastModified
+    end?: Date; // Inclusive
   };
+  where?: MetadataFilter; // Arbitrary filter, ANDed with the shorthands above
+  expandContext?: number; // Neighboring chunks on each side to stitch into each result's context (default: 0)
+}
+
+export interface FederatedQueryOptions extends QueryOptions {
+  normalizeScores?: boolean; // Scale scores so the best hit across all collections scores 1 (default: true)
+}
+
+export interface FederatedQueryResult extends QueryResult {
+  collection: string; // Collection (or alias) the result came from
+  project: string; // Collection name without the matched `prefix*` pattern
+}
+
+// A file put back together from its chunks
+export interface FileDocument {
+  filePath: string;
+  content: string; // Chunks in order, overlaps removed
+  metadata: DocumentMetadata; // The first chunk's, without chunkIndex/totalChunks
+  chunkIds: string[]; // In reading order
+  complete: boolean; // False if chunks are missing (by chunkIndex/totalChunks)
+}
+
+export interface ChunkNeighbors {
+  chunk: VectorDocument;
+  before: VectorDocument[]; // Preceding chunks of the same file, in order
+  after: VectorDocument[]; // Following chunks, in order
+  context: string; // before + chunk + after, stitched
 }
 
+export interface ContextOptions extends Omit<QueryOptions, 'limit' | 'maxPerFile' | 'expandContext'> {
+  tokenBudget?: number; // Most (estimated) tokens of context to return (default: 4000)
+  maxPerFile?: number; // Cap on sections taken from one file (default: no cap)
+  includeNeighbors?: number; // Neighboring chunks on each side of every hit to include (default: 0)
+  candidates?: number; // Search results to assemble the context from (default: 20)
+}
+
+// Adjacent chunks of one file, stitched, with their citation
+export interface ContextSection {
+  filePath?: string; // Unset for documents that aren't file chunks
+  title?: string;
+  chunkStart?: number; // First chunkIndex included
+  chunkEnd?: number; // Last chunkIndex included
+  totalChunks?: number;
+  ids: string[]; // Chunk IDs, in reading order
+  score: number; // Best score among the section's hits
+  tokens: number; // Estimated, citation heading included
+  content: string; // Chunks stitched, overlaps removed
+}
+
+export interface ContextResult {
+  query: string;
+  sections: ContextSection[]; // Most relevant first
+  tokens: number; // Estimated total, within tokenBudget
+  tokenBudget: number;
+  omitted: number; // Search hits left out by the budget or maxPerFile
+  markdown: string; // The sections with citation headings, ready to paste
+}
+
+// Metadata filters shared by query, getRecentDocs, getAllDocuments and iterateDocuments
+export type QueryFilters = Pick<QueryOptions, 'category' | 'source' | 'tags' | 'dateRange' | 'where'>;
+
+export interface PageOptions {
+  limit?: number; // Documents per page (default: 100)
+  cursor?: string; // nextCursor of the previous page (default: first page)
+}
+
+export interface DocumentPage {
+  documents: VectorDocument[];
+  nextCursor?: string; // Unset on the last page
+}
+
+// Computed over every document in the collection
 export interface CollectionStats {
   totalDocuments: number;
-  categories: Record<string, number>;
-  sources: Record<string, number>;
-  lastUpdated: string;
-  averageChunkSize: number;
+  categories: Record<string, number>; // Chunks per category
+  sources: Record<string, number>; // Chunks per source
+  tags: Record<string, number>; // Chunks carrying each tag
+  files: number; // Distinct metadata.filePath values
+  lastUpdated?: string; // Last write (ISO); unset if not written since writes were tracked
+  averageChunkSize: number; // Characters
+  chunkSizes: ChunkSizeBucket[]; // Histogram of chunk lengths
+  oldestModified?: string; // Earliest metadata.lastModified
+  newestModified?: string; // Latest metadata.lastModified
+  embedding: EmbeddingModelInfo; // Model and dimension recorded on the collection
+}
+
+export interface ChunkSizeBucket {
+  min: number; // Characters, inclusive
+  max?: number; // Exclusive; unset for the last bucket
+  count: number;
 }
 
+// Format 1.0 backup contents (see BackupHeader for 2.0)
 export interface BackupData {
   version: string;
   exportDate: string;
@@ -54,12 +189,238 @@ export interface BackupData {
   stats: CollectionStats;
 }
 
+// First line of a backup file
+export interface BackupHeader {
+  format: 'vectordb-backup';
+  version: string; // '2.0' (1.0 files are read through a compatibility reader)
+  exportDate: string;
+  collection?: string;
+  embedding?: EmbeddingModelInfo; // Model that produced the stored embeddings
+  embeddingEncoding?: 'float32-base64'; // Absent when embeddings were left out
+  documentCount?: number; // Always set in 2.0
+  deletedCount?: number; // Deletion records after the documents (snapshots only)
+  checksum?: string; // sha256 of the document lines, always set in 2.0
+  snapshot?: SnapshotInfo; // Set when the backup is part of a snapshot chain
+  encryption?: BackupEncryptionInfo; // Set when the file is encrypted
+}
+
+// Key for an encrypted backup: a passphrase or a key file
+export interface BackupEncryption {
+  passphrase?: string;
+  keyFile?: string; // At least 32 bytes, e.g. from `openssl rand -out backup.key 32`
+}
+
+// Cipher parameters, stored in plaintext on the first line of an encrypted backup
+export interface BackupEncryptionInfo {
+  cipher: 'aes-256-gcm';
+  kdf: 'scrypt' | 'hkdf-sha256'; // scrypt for passphrases, HKDF for key files
+  scrypt?: { N: number; r: number; p: number };
+  salt: string; // base64
+  iv: string; // base64
+  keyCheck: string; // base64, derived with the key to tell a wrong key from a modified file
+  compressed: boolean; // Gzipped before encryption
+}
+
+export interface BackupOptions {
+  includeEmbeddings?: boolean; // Store vectors so restores skip re-embedding (default: true)
+  gzip?: boolean; // Compress the file (default: when the path ends in .gz)
+  encryption?: BackupEncryption; // Encrypt the file (default: plaintext)
+}
+
+// full = every document; incremental = changes since the previous snapshot;
+// differential = changes since the last full snapshot
+export type SnapshotType = 'full' | 'incremental' | 'differential';
+
+export interface SnapshotInfo {
+  id: string;
+  type: SnapshotType;
+  collection: string;
+  createdAt: string; // ISO timestamp
+  parent?: string; // Snapshot the changes are relative to (unset for full)
+  file: string; // Backup file, relative to the snapshot directory
+  embedding?: EmbeddingModelInfo; // Model of the stored embeddings
+  documentCount: number; // Documents in the collection when the snapshot was taken
+  added: number;
+  changed: number;
+  deleted: number;
+}
+
+export interface SnapshotOptions {
+  type?: SnapshotType; // Default: incremental (full when there is nothing to build on)
+  includeEmbeddings?: boolean; // Default: true
+  encryption?: BackupEncryption; // Encrypt the snapshot file (default: plaintext)
+}
+
+// Snapshots to keep per collection; the newest snapshot and everything
+// a kept snapshot needs to be restored are always kept
+export interface RetentionPolicy {
+  daily?: number; // Newest snapshot of each of the last N days with one (default: 7)
+  weekly?: number; // Newest snapshot of each of the last M weeks with one (default: 4)
+}
+
+// 'local' = offline feature-hashed vectors (no API key or network)
+// 'openai' / 'ollama' = HTTP embedding servers (OpenAI-compatible or Ollama API)
+export type EmbeddingProvider = 'google' | 'local' | 'openai' | 'ollama';
+
+// Called as embeddings complete: (completed, total)
+export type EmbeddingProgressCallback = (completed: number, total: number) => void;
+
+export interface DocumentEmbeddingInput {
+  text: string;
+  title?: string; // metadata.title, for models that embed it with the text
+}
+
 export interface EmbeddingFunction {
+  provider?: string; // Registry name, e.g. 'google'
+  modelId?: string; // Identifies the model, e.g. for the embedding cache (uncached if unset)
+  dimensions?: number; // Vector length, if known before the first call
   generate(text: string): Promise<number[]>;
+  // Optional native batching; single-text providers are adapted with bounded parallelism
+  generateBatch?(texts: string[], onProgress?: EmbeddingProgressCallback): Promise<number[][]>;
+  // Optional retrieval-specific embeddings (e.g. task types); generate() is used when absent
+  embedQuery?(text: string): Promise<number[]>;
+  embedDocuments?(
+    documents: DocumentEmbeddingInput[],
+    onProgress?: EmbeddingProgressCallback
+  ): Promise<number[][]>;
+}
+
+export interface WriteOptions {
+  onProgress?: EmbeddingProgressCallback; // Reports documents embedded so far
+}
+
+export interface UpsertResult {
+  inserted: number; // New IDs
+  updated: number; // Existing IDs whose content or metadata changed
+  unchanged: number; // Skipped: same content and metadata as stored
 }
 
+export interface ReplaceFileResult extends UpsertResult {
+  removed: number; // Chunks the file no longer has
+}
+
+export interface RestoreOptions extends WriteOptions {
+  encryption?: BackupEncryption; // Key for encrypted backups (ignored for plaintext ones)
+}
+
+// Which embedding model built a collection, as stamped in its metadata
+export interface EmbeddingModelInfo {
+  provider?: string;
+  model?: string;
+  dimensions?: number;
+}
+
+export interface EmbeddingStatus {
+  collection: EmbeddingModelInfo; // Recorded on the collection
+  configured: EmbeddingModelInfo; // From the configured EmbeddingFunction
+  compatible: boolean; // False if queries and writes will be refused
+}
+
+export interface ReindexOptions {
+  batchSize?: number; // Documents read and re-embedded per batch (default: 100)
+  onProgress?: EmbeddingProgressCallback; // Reports documents processed so far
+}
+
+export interface ReindexResult {
+  collectionName: string;
+  totalDocuments: number;
+  reembedded: number; // Embedded in this run
+  resumed: number; // Already copied by an interrupted earlier run
+  model: EmbeddingModelInfo;
+}
+
+export interface CollectionInfo {
+  name: string; // Physical collection name
+  aliases: string[]; // Aliases currently pointing at this collection
+  count: number;
+  embedding: EmbeddingModelInfo; // Stamped model, or vector length for older collections
+  created?: string; // ISO timestamp
+  description?: string;
+}
+
+export type VectorStoreBackendType = 'chroma' | 'local';
+
 export interface VectorDBConfig {
+  backend?: VectorStoreBackendType; // Default: chroma
   chromaUrl?: string; // Default: http://localhost:8000
+  localPath?: string; // Data directory for the local backend (default: ./.vectordb)
   collectionName?: string; // Default: project-docs
   embeddingFunction?: EmbeddingFunction;
+  embeddingConcurrency?: number; // Parallel embedding calls for single-text providers (default: 4)
+  embeddingCache?: EmbeddingCacheOptions | false; // On-disk embedding cache (default: disabled)
+  keepVersions?: number; // Versions kept per alias after a rebuild, including the live one (default: 2)
+}
+
+/**
+ * Storage layer types
+ * A VectorStore holds one collection; a VectorStoreBackend opens collections
+ */
+
+// Stores only persist flat primitive metadata (see ProjectVectorDB.sanitizeMetadata)
+export type StoredMetadata = Record<string, string | number | boolean>;
+
+export interface StoredRecord {
+  id: string;
+  content: string;
+  metadata: StoredMetadata;
+  embedding?: number[];
+}
+
+export interface StoreMatch extends StoredRecord {
+  distance: number; // Cosine distance (0 = identical)
+}
+
+// Chroma-style filter syntax, understood by every backend
+export type StoreWhere = Record<string, any>;
+export type StoreWhereDocument =
+  | { $contains: string }
+  | { $not_contains: string }
+  | { $regex: string }
+  | { $not_regex: string }
+  | { $and: StoreWhereDocument[] }
+  | { $or: StoreWhereDocument[] };
+
+export interface StoreGetOptions {
+  ids?: string[];
+  where?: StoreWhere;
+  whereDocument?: StoreWhereDocument;
+  limit?: number;
+  offset?: number;
+  includeEmbeddings?: boolean;
+}
+
+export interface StoreQueryOptions {
+  nResults: number;
+  where?: StoreWhere;
+  whereDocument?: StoreWhereDocument;
+  includeEmbeddings?: boolean;
+}
+
+export interface VectorStore {
+  readonly name: string;
+  add(records: StoredRecord[]): Promise<void>;
+  update(records: StoredRecord[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  get(options?: StoreGetOptions): Promise<StoredRecord[]>;
+  query(embedding: number[], options: StoreQueryOptions): Promise<StoreMatch[]>;
+  count(): Promise<number>;
+  drop(): Promise<void>;
+  /** Collection-level metadata */
+  getMetadata(): Promise<StoredMetadata>;
+  /** Merge keys into the collection-level metadata */
+  updateMetadata(metadata: StoredMetadata): Promise<void>;
+}
+
+export interface VectorStoreBackend {
+  readonly type: VectorStoreBackendType;
+  /** Open a collection, creating it with the given metadata if missing */
+  openCollection(name: string, metadata?: StoredMetadata): Promise<VectorStore>;
+  /** Names of all collections */
+  listCollections(): Promise<string[]>;
+  /** Delete a collection if it exists */
+  deleteCollection(name: string): Promise<void>;
+  /** Rename a collection, replacing any collection already named `to` */
+  renameCollection(from: string, to: string): Promise<void>;
+  /** Throws if the backend is unreachable */
+  heartbeat(): Promise<void>;
 }
\ No newline at end of file
@@ -17,16 +17,45 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { ProjectVectorDB } from '../lib/client.js';
-import { GoogleAIEmbeddingFunction } from '../lib/embeddings.js';
-import type { QueryOptions } from '../lib/types.js';
+import { CollectionManager } from '../lib/collections.js';
+import { createEmbeddingFunction } from '../lib/embeddings.js';
+import { backupKeyFromEnv, encryptionKeyFromEnv } from '../lib/backup-encryption.js';
+import type {
+  BackupEncryption,
+  ContextOptions,
+  MetadataFilter,
+  QueryOptions,
+  QueryResult,
+  SearchMode,
+  VectorStoreBackendType,
+} from '../lib/types.js';
+
+// stdout carries the JSON-RPC stream, so the library's status and
+// progress lines (connections, imports, snapshots, ...) go to stderr
+console.log = console.error;
 
 // Initialize vector DB client
-const embedder = new GoogleAIEmbeddingFunction();
-const vectorDB = new ProjectVectorDB({
+const backendConfig = {
+  backend: (process.env.VECTORDB_BACKEND as VectorStoreBackendType) || 'chroma',
   chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
+  localPath: process.env.VECTORDB_PATH || './.vectordb',
+};
+const embedder = createEmbeddingFunction(process.env.EMBEDDING_PROVIDER);
+const vectorDB = new ProjectVectorDB({
+  ...backendConfig,
   collectionName: process.env.COLLECTION_NAME || 'project-docs',
   embeddingFunction: embedder,
+  embeddingCache: { dir: process.env.VECTORDB_CACHE_DIR },
 });
+const collections = new CollectionManager(backendConfig);
+
+// Backup key from tool arguments, else the server's VECTORDB_BACKUP_PASSPHRASE / VECTORDB_BACKUP_KEY_FILE
+// (so agents can encrypt and restore without ever seeing the secret)
+// When encrypting, VECTORDB_BACKUP_KEY_FILE wins if both are set
+function backupKey(passphrase?: string, keyFile?: string, encrypting = false): BackupEncryption | undefined {
+  if (passphrase || keyFile) return { passphrase, keyFile };
+  return encrypting ? encryptionKeyFromEnv() : backupKeyFromEnv();
+}
 
 // Initialize on startup
 let isInitialized = false;
@@ -55,7 +84,7 @@ const tools: Tool[] = [
   },
   {
     name: 'query_vector_db',
-    description: 'Semantic search across project documentation. Returns relevant documentation chunks based on natural language queries.',
+    description: 'Search across project documentation. Returns relevant documentation chunks based on natural language queries, exact identifiers, or both.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -73,6 +102,90 @@ const tools: Tool[] = [
           description: 'Minimum similarity threshold 0-1 (default: 0.7)',
           default: 0.7,
         },
+        mode: {
+          type: 'string',
+          enum: ['semantic', 'keyword', 'hybrid'],
+          description: 'semantic (meaning), keyword (exact terms like function or env var names), or hybrid (both fused). Default: semantic',
+          default: 'semantic',
+        },
+        diversity: {
+          type: 'number',
+          description: 'Rerank for diversity with maximal marginal relevance, 0 (relevance only) to 1 (max diversity). Use ~0.3 to avoid overlapping chunks',
+        },
+        maxPerFile: {
+          type: 'number',
+          description: 'Maximum number of results from the same file',
+        },
+        recencyHalfLifeDays: {
+          type: 'number',
+          description: 'Half-life in days for the recency boost in scoring (default: 180)',
+        },
+        rawSimilarity: {
+          type: 'boolean',
+          description: 'Rank on raw similarity only, ignoring document priority and recency (default: false)',
+          default: false,
+        },
+        category: {
+          type: 'string',
+          description: 'Filter by category (e.g., architecture, chatbot, design)',
+        },
+        source: {
+          type: 'string',
+          description: 'Filter by source (e.g., docs, memory-bank, claude-md)',
+        },
+        where: {
+          type: 'object',
+          description: 'Metadata filter. Fields match metadata (category, source, tags, priority, lastModified, filePath, ...) by value or with $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin; combine with $and, $or, $not; $contains matches content. Documents without a field never match a condition on it, even $ne, $nin or under $not. Example: {"category": {"$in": ["design", "architecture"]}, "priority": {"$gte": 80}}',
+          additionalProperties: true,
+        },
+        collections: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Search these collections instead of the default one and merge the results (e.g. one per project). "prefix*" matches every collection with the prefix. Use list_collections to see what exists. Use semantic mode here: keyword and hybrid scores are relative to each collection, so every collection\'s top hit ranks about the same',
+        },
+        expandContext: {
+          type: 'number',
+          description: 'Also return each result stitched together with this many neighboring chunks on each side, as "context" (default: 0)',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_context',
+    description: 'Get the most relevant documentation for a task as markdown that fits a token budget. Adjacent chunks of the same file are merged and overlaps removed; each section is cited with its file path and chunk range. Prefer this over query_vector_db when the results go straight into your context',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Natural language description of the task or question',
+        },
+        tokenBudget: {
+          type: 'number',
+          description: 'Most tokens of context to return, estimated at ~4 characters a token (default: 4000)',
+          default: 4000,
+        },
+        maxPerFile: {
+          type: 'number',
+          description: 'Maximum number of sections from the same file',
+        },
+        includeNeighbors: {
+          type: 'number',
+          description: 'Neighboring chunks to include on each side of every hit (default: 0)',
+          default: 0,
+        },
+        threshold: {
+          type: 'number',
+          description: 'Minimum similarity threshold 0-1 (default: 0.7)',
+          default: 0.7,
+        },
+        mode: {
+          type: 'string',
+          enum: ['semantic', 'keyword', 'hybrid'],
+          description: 'semantic (meaning), keyword (exact terms), or hybrid (both fused). Default: semantic',
+          default: 'semantic',
+        },
         category: {
           type: 'string',
           description: 'Filter by category (e.g., architecture, chatbot, design)',
@@ -81,6 +194,11 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Filter by source (e.g., docs, memory-bank, claude-md)',
         },
+        where: {
+          type: 'object',
+          description: 'Metadata filter, as for query_vector_db',
+          additionalProperties: true,
+        },
       },
       required: ['query'],
     },
@@ -108,9 +226,55 @@ const tools: Tool[] = [
       required: ['category', 'query'],
     },
   },
+  {
+    name: 'get_document',
+    description: 'Get a whole file, put back together from its chunks (e.g. when a search hit shows only part of it)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        filePath: {
+          type: 'string',
+          description: 'filePath of the document, as returned in search results',
+        },
+      },
+      required: ['filePath'],
+    },
+  },
+  {
+    name: 'get_chunk_context',
+    description: 'Get the text around a search hit: the chunk and its neighboring chunks from the same file, stitched together',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Chunk id, as returned in search results',
+        },
+        before: {
+          type: 'number',
+          description: 'Preceding chunks to include (default: 1)',
+          default: 1,
+        },
+        after: {
+          type: 'number',
+          description: 'Following chunks to include (default: 1)',
+          default: 1,
+        },
+      },
+      required: ['id'],
+    },
+  },
   {
     name: 'get_stats',
-    description: 'Get statistics about the vector database collection',
+    description: 'Get statistics computed over the whole collection: counts by category, source and tag, distinct files, a chunk size histogram, the lastModified range, the embedding model and the time of the last write',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'list_collections',
+    description: 'List every collection with its document count, embedding model, creation date and aliases',
     inputSchema: {
       type: 'object',
       properties: {},
@@ -132,13 +296,13 @@ const tools: Tool[] = [
   },
   {
     name: 'add_documents',
-    description: 'Add new documents to the vector database',
+    description: 'Add or update documents in the vector database. Documents whose content and metadata are unchanged are skipped (not re-embedded)',
     inputSchema: {
       type: 'object',
       properties: {
         documents: {
           type: 'array',
-          description: 'Array of documents to add',
+          description: 'Array of documents to add or update (matched by id)',
           items: {
             type: 'object',
             properties: {
@@ -170,7 +334,29 @@ const tools: Tool[] = [
       properties: {
         outputPath: {
           type: 'string',
-          description: 'Path where the backup file should be saved (e.g., ./backups/vectordb-backup.jsonl)',
+          description: 'Path where the backup file should be saved (e.g., ./backups/vectordb-backup.jsonl, .jsonl.gz to compress)',
+        },
+        includeEmbeddings: {
+          type: 'boolean',
+          description: 'Store embeddings so a restore with the same model skips re-embedding (default: true)',
+          default: true,
+        },
+        gzip: {
+          type: 'boolean',
+          description: 'Compress the backup with gzip (default: when the path ends in .gz)',
+        },
+        encrypt: {
+          type: 'boolean',
+          description: 'Encrypt the backup (AES-256-GCM) with the passphrase or key file given, or else the one configured on the server (default: false)',
+          default: false,
+        },
+        passphrase: {
+          type: 'string',
+          description: 'Passphrase to encrypt with (implies encrypt)',
+        },
+        keyFile: {
+          type: 'string',
+          description: 'Path to a key file to encrypt with (implies encrypt)',
         },
       },
       required: ['outputPath'],
@@ -191,6 +377,14 @@ const tools: Tool[] = [
           description: 'Whether to clear existing data before restoring (default: false)',
           default: false,
         },
+        passphrase: {
+          type: 'string',
+          description: 'Passphrase of an encrypted backup (default: the one configured on the server)',
+        },
+        keyFile: {
+          type: 'string',
+          description: 'Key file of an encrypted backup (default: the one configured on the server)',
+        },
       },
       required: ['inputPath'],
     },
@@ -224,22 +418,53 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
     switch (name) {
       case 'query_vector_db': {
-        const { query, limit, threshold, category, source } = args as {
+        const {
+          query,
+          limit,
+          threshold,
+          mode,
+          diversity,
+          maxPerFile,
+          recencyHalfLifeDays,
+          rawSimilarity,
+          category,
+          source,
+          where,
+          collections,
+          expandContext,
+        } = args as {
           query: string;
           limit?: number;
           threshold?: number;
+          mode?: SearchMode;
+          diversity?: number;
+          maxPerFile?: number;
+          recencyHalfLifeDays?: number;
+          rawSimilarity?: boolean;
           category?: string;
           source?: string;
+          where?: MetadataFilter;
+          collections?: string[];
+          expandContext?: number;
         };
 
         const options: QueryOptions = {
           limit,
           threshold,
+          mode,
+          diversity,
+          maxPerFile,
+          scoring: rawSimilarity ? false : { recencyHalfLifeDays },
           category,
           source,
+          where,
+          expandContext,
         };
 
-        const results = await vectorDB.query(query, options);
+        const results: (QueryResult & { collection?: string; project?: string })[] =
+          collections && collections.length > 0
+            ? await vectorDB.queryCollections(query, collections, options)
+            : await vectorDB.query(query, options);
 
         return {
           content: [
@@ -248,14 +473,20 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   query,
+                  mode: mode || 'semantic',
                   resultCount: results.length,
                   results: results.map((r) => ({
+                    id: r.id,
                     score: r.score,
+                    similarity: r.similarity,
+                    collection: r.collection,
+                    project: r.project,
                     title: r.metadata.title,
                     category: r.metadata.category,
                     source: r.metadata.source,
                     filePath: r.metadata.filePath,
                     content: r.content,
+                    context: r.context,
                   })),
                 },
                 null,
@@ -266,6 +497,43 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'get_context': {
+        const { query, ...options } = args as { query: string } & Pick<
+          ContextOptions,
+          'tokenBudget' | 'maxPerFile' | 'includeNeighbors' | 'threshold' | 'mode' | 'category' | 'source' | 'where'
+        >;
+
+        const context = await vectorDB.getContext(query, options);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  query,
+                  tokens: context.tokens,
+                  tokenBudget: context.tokenBudget,
+                  omitted: context.omitted,
+                  citations: context.sections.map((s, i) => ({
+                    section: i + 1,
+                    title: s.title,
+                    filePath: s.filePath,
+                    chunkStart: s.chunkStart,
+                    chunkEnd: s.chunkEnd,
+                    totalChunks: s.totalChunks,
+                    score: s.score,
+                  })),
+                  markdown: context.markdown,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
       case 'search_by_category': {
         const { category, query, limit } = args as {
           category: string;
@@ -300,6 +568,57 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'get_document': {
+        const { filePath } = args as { filePath: string };
+        const document = await vectorDB.getDocumentByPath(filePath);
+        if (!document) {
+          throw new Error(`No document with filePath ${filePath}`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(document, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_chunk_context': {
+        const { id, before = 1, after = 1 } = args as {
+          id: string;
+          before?: number;
+          after?: number;
+        };
+        const neighbors = await vectorDB.getNeighbors(id, before, after);
+        if (!neighbors) {
+          throw new Error(`No chunk with id ${id}`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  id,
+                  title: neighbors.chunk.metadata.title,
+                  filePath: neighbors.chunk.metadata.filePath,
+                  chunkIndex: neighbors.chunk.metadata.chunkIndex,
+                  totalChunks: neighbors.chunk.metadata.totalChunks,
+                  before: neighbors.before.map((c) => c.id),
+                  after: neighbors.after.map((c) => c.id),
+                  context: neighbors.context,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
       case 'get_stats': {
         const stats = await vectorDB.getStats();
 
@@ -313,6 +632,27 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'list_collections': {
+        const list = await collections.list();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  current: vectorDB.getCollectionInfo(),
+                  count: list.length,
+                  collections: list,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
       case 'get_recent_docs': {
         const { days = 7 } = args as { days?: number };
         const docs = await vectorDB.getRecentDocs(days);
@@ -343,7 +683,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'add_documents': {
         const { documents } = args as { documents: any[] };
-        await vectorDB.addDocuments(documents);
+        const result = await vectorDB.upsertDocuments(documents);
 
         return {
           content: [
@@ -351,7 +691,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                added: documents.length,
+                ...result,
               }),
             },
           ],
@@ -386,8 +726,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'backup_database': {
-        const { outputPath } = args as { outputPath: string };
-        await vectorDB.exportBackup(outputPath);
+        const { outputPath, includeEmbeddings, gzip, encrypt = false, passphrase, keyFile } = args as {
+          outputPath: string;
+          includeEmbeddings?: boolean;
+          gzip?: boolean;
+          encrypt?: boolean;
+          passphrase?: string;
+          keyFile?: string;
+        };
+        const encryption = encrypt || passphrase || keyFile
+          ? backupKey(passphrase, keyFile, true) ?? {}
+          : undefined;
+        const header = await vectorDB.exportBackup(outputPath, { includeEmbeddings, gzip, encryption });
 
         return {
           content: [
@@ -397,6 +747,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 success: true,
                 message: `Database backed up to ${outputPath}`,
                 path: outputPath,
+                documentCount: header.documentCount,
+                checksum: header.checksum,
+                encrypted: !!header.encryption,
               }, null, 2),
             },
           ],
@@ -404,11 +757,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'restore_database': {
-        const { inputPath, clearExisting = false } = args as {
+        const { inputPath, clearExisting = false, passphrase, keyFile } = args as {
           inputPath: string;
           clearExisting?: boolean;
+          passphrase?: string;
+          keyFile?: string;
         };
-        await vectorDB.importBackup(inputPath, clearExisting);
+        await vectorDB.importBackup(inputPath, clearExisting, {
+          encryption: backupKey(passphrase, keyFile),
+        });
 
         return {
           content: [